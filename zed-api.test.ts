@@ -0,0 +1,790 @@
+import { afterAll, afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { basename, dirname, join } from "path";
+
+// Keep the user's config, history and cached model lists out of the tests.
+const testHome = mkdtempSync(join(tmpdir(), "zed-api-test-"));
+process.env.XDG_CONFIG_HOME = join(testHome, ".config");
+process.env.XDG_CACHE_HOME = join(testHome, ".cache");
+afterAll(() => rmSync(testHome, { recursive: true, force: true }));
+
+const {
+  applyModelMetadataAdapters,
+  applySettingsFixes,
+  claimStaleSettingsLock,
+  collectRebaseEdits,
+  expandDiscoveryTargets,
+  findBestOpenRouterModelMatch,
+  inferCapabilitiesFromProviderModel,
+  lintSettingsText,
+  listSettingsSnapshots,
+  nativeServerBaseUrl,
+  parseManifest,
+  parseModelQuery,
+  parseProviderBundle,
+  planManifestProvider,
+  probeCapability,
+  rebaseSettingsEdit,
+  runtimeOptions,
+  saveSettingsSnapshot,
+  staleSettingsLock,
+} = await import("./zed-api.ts");
+
+// exitWithError ends the process; turn it into an exception the tests can catch.
+let exitSpy: ReturnType<typeof spyOn>;
+let errorSpy: ReturnType<typeof spyOn>;
+beforeEach(() => {
+  exitSpy = spyOn(process, "exit").mockImplementation((code?: number) => {
+    throw new Error(`exit ${code}`);
+  });
+  errorSpy = spyOn(console, "error").mockImplementation(() => {});
+});
+afterEach(() => {
+  exitSpy.mockRestore();
+  errorSpy.mockRestore();
+});
+
+describe("findBestOpenRouterModelMatch", () => {
+  const registry = [
+    { id: "openai/gpt-4o", name: "OpenAI: GPT-4o" },
+    { id: "z-ai/glm-4.7", name: "Z.AI: GLM 4.7" },
+    { id: "meta-llama/llama-3.1-8b-instruct", name: "Meta: Llama 3.1 8B Instruct" },
+  ];
+
+  test("matches exact IDs and drops variant suffixes", () => {
+    expect(findBestOpenRouterModelMatch("openai/gpt-4o:free", registry)?.id).toBe("openai/gpt-4o");
+  });
+
+  test("matches across provider prefixes", () => {
+    expect(findBestOpenRouterModelMatch("gpt-4o", registry)?.id).toBe("openai/gpt-4o");
+    expect(findBestOpenRouterModelMatch("zai-org/GLM-4.7-TEE", registry)?.id).toBe("z-ai/glm-4.7");
+  });
+
+  test("returns null for unrelated models", () => {
+    expect(findBestOpenRouterModelMatch("acme/widget-7", registry)).toBeNull();
+  });
+});
+
+describe("inferCapabilitiesFromProviderModel", () => {
+  test("reads OpenRouter parameters and modalities", () => {
+    expect(
+      inferCapabilitiesFromProviderModel({
+        supported_parameters: ["tools", "temperature"],
+        architecture: { input_modalities: ["text", "image"] },
+      }),
+    ).toEqual({ tools: true, parallel_tool_calls: false, images: true });
+  });
+
+  test("reads a boolean capabilities object", () => {
+    expect(
+      inferCapabilitiesFromProviderModel({ capabilities: { tools: true, images: "yes" } }),
+    ).toEqual({ tools: true, images: undefined, parallel_tool_calls: undefined, prompt_cache_key: undefined });
+  });
+
+  test("knows nothing about a bare listing", () => {
+    expect(inferCapabilitiesFromProviderModel({ id: "local-model" })).toEqual({});
+  });
+});
+
+describe("manifests", () => {
+  const manifestYaml = `
+providers:
+  Local:
+    api_url: http://127.0.0.1:9/v1
+    fetch_models: false
+    models:
+      - match: a
+        max_tokens: 4096
+      - b
+      - "c-*"
+`;
+  const capabilities = { tools: true, images: false, parallel_tool_calls: false, prompt_cache_key: false };
+  const model = (name: string, maxTokens: number) => ({
+    name,
+    display_name: name,
+    max_tokens: maxTokens,
+    capabilities,
+  });
+
+  test("parses YAML manifests with defaults", () => {
+    const manifest = parseManifest(manifestYaml, "zed-providers.yaml");
+    expect(manifest.providers.Local).toMatchObject({
+      api_url: "http://127.0.0.1:9/v1",
+      fetch_models: false,
+      default_max_tokens: undefined,
+      models: [{ match: "a", max_tokens: 4096 }, { match: "b" }, { match: "c-*" }],
+    });
+  });
+
+  test("rejects invalid manifests", () => {
+    expect(() => parseManifest("{}", "zed-providers.json")).toThrow("exit 1");
+    expect(() =>
+      parseManifest('{ "providers": { "A": { "api_url": "ftp://x", "models": ["m"] } } }', "m.json"),
+    ).toThrow("exit 1");
+    expect(() =>
+      parseManifest(
+        '{ "providers": { "A": { "api_url": "http://x", "models": [{ "match": "m", "max_tokens": -1 }] } } }',
+        "m.json",
+      ),
+    ).toThrow("exit 1");
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("Invalid manifest m.json"));
+  });
+
+  test("plans updates and removals without touching unmanaged models", async () => {
+    const manifest = parseManifest(manifestYaml, "zed-providers.yaml");
+    const existing = {
+      api_url: "http://127.0.0.1:9/v1",
+      available_models: [
+        model("unmanaged", 2048),
+        model("a", 8192),
+        model("b", 8192),
+        model("c-old", 8192),
+      ],
+    };
+
+    // The pattern is skipped without fetch_models, so c-old is no longer wanted
+    const plan = await planManifestProvider("Local", manifest.providers.Local, existing);
+    expect(plan.action).toBe("update");
+    expect(plan.added).toEqual([]);
+    expect(plan.removed).toEqual(["c-old"]);
+    expect(plan.updated).toEqual([{ name: "a", changes: ["max_tokens: 8192 → 4096"] }]);
+    expect(plan.warnings).toEqual(['"c-*" is a pattern but fetch_models is disabled; skipped']);
+    expect(plan.models.map((m) => [m.name, m.max_tokens])).toEqual([
+      ["unmanaged", 2048],
+      ["a", 4096],
+      ["b", 8192],
+    ]);
+  });
+
+  test("reports a provider that already matches", async () => {
+    const manifest = parseManifest(manifestYaml, "zed-providers.yaml");
+    const existing = {
+      api_url: "http://127.0.0.1:9/v1",
+      available_models: [model("a", 4096), model("b", 8192)],
+    };
+    const plan = await planManifestProvider("Local", manifest.providers.Local, existing);
+    expect(plan.action).toBe("unchanged");
+  });
+});
+
+describe("parseModelQuery", () => {
+  test("splits filters from search terms", () => {
+    const query = parseModelQuery("GPT -mini +tools ctx>=128k price<=2 sort:context");
+    expect(query).toMatchObject({
+      terms: ["gpt"],
+      excluded: ["mini"],
+      capabilities: ["tools"],
+      minContext: 128_000,
+      maxPrice: 2,
+      sort: "context",
+    });
+  });
+
+  test("compiles /regex/ terms", () => {
+    const query = parseModelQuery("/^openai\\//");
+    expect(query.patterns).toHaveLength(1);
+    expect(query.patterns[0].test("OpenAI/gpt-4o")).toBe(true);
+  });
+
+  test("reads 1m and plain token counts", () => {
+    expect(parseModelQuery("ctx:1m").minContext).toBe(1_000_000);
+    expect(parseModelQuery("ctx>32000").minContext).toBe(32_000);
+  });
+
+  test("ignores incomplete filters while typing", () => {
+    const query = parseModelQuery("ctx>= price< sort: - + /");
+    expect(query).toEqual({
+      terms: [],
+      excluded: [],
+      patterns: [],
+      capabilities: [],
+      sort: "name",
+    });
+  });
+
+  test("searches for terms that only look like filters", () => {
+    const query = parseModelQuery("pricey ctx-large sort:cheap +vision");
+    expect(query.terms).toEqual(["pricey", "ctx-large", "sort:cheap", "+vision"]);
+    expect(query.sort).toBe("name");
+  });
+
+  test("rejects filter values with trailing text", () => {
+    const query = parseModelQuery("ctx>=128kb price<=2x price<=1e999");
+    expect(query.minContext).toBeUndefined();
+    expect(query.maxPrice).toBeUndefined();
+    expect(query.terms).toEqual(["ctx>=128kb", "price<=2x", "price<=1e999"]);
+  });
+
+  test("treats an invalid regex as search text", () => {
+    expect(parseModelQuery("/[/").terms).toEqual(["/[/"]);
+  });
+});
+
+describe("parseProviderBundle", () => {
+  const bundle = (providers: unknown) => JSON.stringify({ zed_api_bundle: 1, providers });
+
+  test("reads providers of every family", () => {
+    const parsed = parseProviderBundle(
+      bundle([
+        {
+          family: "openai_compatible",
+          name: "Team",
+          env_var: "TEAM_API_KEY",
+          settings: { api_url: "https://llm.example.com/v1", available_models: [] },
+          request: { headers: { "X-Team": "1" } },
+        },
+        { family: "anthropic", name: "ignored", settings: { available_models: [] } },
+      ]),
+      "team.json",
+    );
+    expect(parsed.providers.map((p) => [p.family, p.name])).toEqual([
+      ["openai_compatible", "Team"],
+      ["anthropic", "anthropic"],
+    ]);
+    expect(parsed.providers[0].request).toEqual({ headers: { "X-Team": "1" } });
+  });
+
+  test("rejects malformed bundles", () => {
+    expect(() => parseProviderBundle("not json", "b.json")).toThrow("exit 1");
+    expect(() => parseProviderBundle(JSON.stringify({ zed_api_bundle: 2, providers: [] }), "b.json"))
+      .toThrow("exit 1");
+    expect(() =>
+      parseProviderBundle(bundle([{ family: "nope", settings: { available_models: [] } }]), "b.json"),
+    ).toThrow("exit 1");
+    expect(() =>
+      parseProviderBundle(bundle([{ family: "openai_compatible", settings: { available_models: [] } }]), "b.json"),
+    ).toThrow("exit 1");
+    expect(() =>
+      parseProviderBundle(bundle([{ family: "openai_compatible", name: "A", settings: {} }]), "b.json"),
+    ).toThrow("exit 1");
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("Invalid bundle b.json"));
+  });
+});
+
+describe("expandDiscoveryTargets", () => {
+  test("keeps hosts and host:port pairs", () => {
+    expect(expandDiscoveryTargets(["gpu-box", "10.0.0.5:8000"])).toEqual([
+      { host: "gpu-box", port: undefined },
+      { host: "10.0.0.5", port: 8000 },
+    ]);
+  });
+
+  test("expands CIDR ranges without network and broadcast addresses", () => {
+    const hosts = expandDiscoveryTargets(["192.168.1.77/30"]);
+    expect(hosts).toEqual([{ host: "192.168.1.77" }, { host: "192.168.1.78" }]);
+    expect(expandDiscoveryTargets(["10.0.0.0/24"])).toHaveLength(254);
+    expect(expandDiscoveryTargets(["10.0.0.9/32"])).toEqual([{ host: "10.0.0.9" }]);
+  });
+
+  test("rejects invalid and oversized targets", () => {
+    expect(expandDiscoveryTargets(["10.0.0.0/16"])).toContain("scan at most 1024");
+    expect(expandDiscoveryTargets(["300.0.0.0/24"])).toBe('Invalid CIDR range "300.0.0.0/24"');
+    expect(expandDiscoveryTargets(["box:70000"])).toBe('Invalid port in "box:70000"');
+    expect(expandDiscoveryTargets(["http://box"])).toContain("Invalid host");
+  });
+});
+
+const settingsText = (value: unknown) => JSON.stringify(value, null, 2);
+
+function providerSettings(models: object[], extra: object = {}) {
+  return {
+    language_models: {
+      openai_compatible: {
+        Local: { api_url: "http://127.0.0.1:9/v1", available_models: models, ...extra },
+      },
+    },
+  };
+}
+
+describe("lintSettingsText", () => {
+  test("accepts a valid provider", () => {
+    const text = settingsText(
+      providerSettings([{ name: "a", max_tokens: 8192, capabilities: { tools: true } }]),
+    );
+    expect(lintSettingsText(text)).toEqual([]);
+  });
+
+  test("reports syntax errors before anything else", () => {
+    const issues = lintSettingsText('{ "language_models": { "openai_compatible": ');
+    expect(issues.length).toBeGreaterThan(0);
+    expect(issues.every((issue) => issue.severity === "error")).toBe(true);
+  });
+
+  test("finds schema problems", () => {
+    const text = settingsText(
+      providerSettings([
+        { name: "a", max_tokens: 8192, max_output_tokens: 16384 },
+        { name: "a", max_tokens: 8192 },
+        { name: "b" },
+        { name: "c", max_tokens: 8192, capabilities: { tools: "true", images: "maybe" } },
+      ]),
+    );
+    const messages = lintSettingsText(text).map((issue) => issue.message);
+    expect(messages).toEqual([
+      "16384 is larger than max_tokens (8192)",
+      'duplicate model "a"',
+      "missing max_tokens",
+      'must be true or false, not "true"',
+      'must be true or false, not "maybe"',
+    ]);
+  });
+
+  test("fixes what it can and leaves the rest", () => {
+    const text = settingsText(
+      providerSettings([
+        { name: "a", max_tokens: 8192, max_output_tokens: 16384 },
+        { name: "a", max_tokens: 4096 },
+        { name: "c", max_tokens: 8192, capabilities: { tools: "true", images: "maybe" } },
+      ]),
+    );
+    const fixed = applySettingsFixes(text, lintSettingsText(text));
+    expect(JSON.parse(fixed)).toEqual(
+      providerSettings([
+        { name: "a", max_tokens: 8192, max_output_tokens: 8192 },
+        { name: "c", max_tokens: 8192, capabilities: { tools: true, images: "maybe" } },
+      ]),
+    );
+    expect(lintSettingsText(fixed).map((issue) => issue.message)).toEqual([
+      'must be true or false, not "maybe"',
+    ]);
+  });
+
+  test("adds a missing available_models list", () => {
+    const text = settingsText({
+      language_models: { openai_compatible: { Local: { api_url: "http://127.0.0.1:9/v1" } } },
+    });
+    const fixed = applySettingsFixes(text, lintSettingsText(text));
+    expect(JSON.parse(fixed).language_models.openai_compatible.Local.available_models).toEqual([]);
+  });
+});
+
+describe("rebaseSettingsEdit", () => {
+  const model = (name: string, maxTokens = 8192) => ({ name, max_tokens: maxTokens });
+
+  test("replays an edit onto a file changed elsewhere", () => {
+    const base = settingsText({ theme: "One Dark", ...providerSettings([model("a")]) });
+    const edited = settingsText({ theme: "One Dark", ...providerSettings([model("a", 4096)]) });
+    const current = settingsText({ theme: "Ayu", ...providerSettings([model("a")]) });
+
+    const rebase = rebaseSettingsEdit(base, edited, current);
+    expect(rebase.conflicts).toEqual([]);
+    expect(JSON.parse(rebase.text)).toEqual({
+      theme: "Ayu",
+      ...providerSettings([model("a", 4096)]),
+    });
+  });
+
+  test("edits models by name after the list was reordered", () => {
+    const base = settingsText(providerSettings([model("a"), model("b")]));
+    const edited = settingsText(providerSettings([model("a"), model("b", 2048)]));
+    const current = settingsText(providerSettings([model("c"), model("b"), model("a")]));
+
+    const rebase = rebaseSettingsEdit(base, edited, current);
+    expect(rebase.conflicts).toEqual([]);
+    expect(JSON.parse(rebase.text)).toEqual(
+      providerSettings([model("c"), model("b", 2048), model("a")]),
+    );
+  });
+
+  test("appends added models and removes deleted ones", () => {
+    const base = settingsText(providerSettings([model("a"), model("b")]));
+    const edited = settingsText(providerSettings([model("b"), model("d")]));
+    const current = settingsText(providerSettings([model("a"), model("b"), model("c")]));
+
+    const rebase = rebaseSettingsEdit(base, edited, current);
+    expect(rebase.conflicts).toEqual([]);
+    expect(JSON.parse(rebase.text)).toEqual(
+      providerSettings([model("b"), model("c"), model("d")]),
+    );
+  });
+
+  test("keeps comments of the current file", () => {
+    const base = '{\n  "theme": "One Dark"\n}\n';
+    const edited = '{\n  "theme": "Ayu"\n}\n';
+    const current = '{\n  // picked by hand\n  "theme": "One Dark",\n  "vim_mode": true\n}\n';
+
+    const rebase = rebaseSettingsEdit(base, edited, current);
+    expect(rebase.conflicts).toEqual([]);
+    expect(rebase.text).toContain("// picked by hand");
+    expect(rebase.text).toContain('"theme": "Ayu"');
+    expect(rebase.text).toContain('"vim_mode": true');
+  });
+
+  test("reports a value changed on both sides", () => {
+    const base = settingsText(providerSettings([model("a")]));
+    const edited = settingsText(providerSettings([model("a", 4096)]));
+    const current = settingsText(providerSettings([model("a", 2048)]));
+
+    const rebase = rebaseSettingsEdit(base, edited, current);
+    expect(rebase.conflicts).toEqual([
+      ["language_models", "openai_compatible", "Local", "available_models", 0, "max_tokens"],
+    ]);
+  });
+
+  test("reports a reorder of a list that changed too", () => {
+    const base = settingsText(providerSettings([model("a"), model("b")]));
+    const edited = settingsText(providerSettings([model("b"), model("a")]));
+    const current = settingsText(providerSettings([model("a"), model("b"), model("c")]));
+
+    const rebase = rebaseSettingsEdit(base, edited, current);
+    expect(rebase.conflicts).toEqual([
+      ["language_models", "openai_compatible", "Local", "available_models"],
+    ]);
+  });
+
+  test("refuses to merge into a file that does not parse", () => {
+    const rebase = rebaseSettingsEdit("{}", '{ "theme": "Ayu" }', '{ "theme": ');
+    expect(rebase.conflicts).toEqual([[]]);
+  });
+});
+
+describe("collectRebaseEdits", () => {
+  test("skips nodes the edit left alone or current already matches", () => {
+    const edits: any[] = [];
+    const conflicts: any[] = [];
+    collectRebaseEdits(
+      [],
+      { a: 1, b: 1 },
+      { a: 1, b: 2 },
+      { a: 3, b: 2 },
+      edits,
+      conflicts,
+    );
+    expect(edits).toEqual([]);
+    expect(conflicts).toEqual([]);
+  });
+
+  test("removes a key the edit deleted", () => {
+    const edits: any[] = [];
+    const conflicts: any[] = [];
+    collectRebaseEdits([], { a: 1, b: 1 }, { a: 1 }, { a: 2, b: 1 }, edits, conflicts);
+    expect(edits).toEqual([{ path: ["b"], value: undefined }]);
+    expect(conflicts).toEqual([]);
+  });
+});
+
+describe("nativeServerBaseUrl", () => {
+  test("strips the models endpoint and keeps sub-paths", () => {
+    expect(nativeServerBaseUrl("http://localhost:11434/v1/models")).toBe("http://localhost:11434");
+    expect(nativeServerBaseUrl("http://gpu-box/ollama/v1/models/")).toBe("http://gpu-box/ollama");
+    expect(nativeServerBaseUrl("http://gpu-box:8080/models")).toBe("http://gpu-box:8080");
+    expect(nativeServerBaseUrl("http://gpu-box/ollama/api/tags")).toBe("http://gpu-box/ollama");
+  });
+});
+
+describe("applyModelMetadataAdapters", () => {
+  // An Ollama server that counts its /api/show requests
+  let showRequests = 0;
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const { model } = (await request.json()) as { model: string };
+      showRequests++;
+      return Response.json({ capabilities: ["completion", "tools"], parameters: "num_ctx 8192", model });
+    },
+  });
+  afterAll(() => server.stop());
+  const endpoint = () => `http://127.0.0.1:${server.port}/v1/models`;
+  const models = [{ id: "llama3.2:latest", owned_by: "library" }];
+
+  test("reuses cached model details, also offline", async () => {
+    const { interactive, offline } = runtimeOptions;
+    runtimeOptions.interactive = false;
+    try {
+      const fetched = await applyModelMetadataAdapters(models, endpoint(), undefined);
+      expect(fetched[0]).toMatchObject({ context_length: 8192, capabilities: { tools: true } });
+      expect(showRequests).toBe(1);
+
+      expect(await applyModelMetadataAdapters(models, endpoint(), undefined)).toEqual(fetched);
+      runtimeOptions.offline = true;
+      expect(await applyModelMetadataAdapters(models, endpoint(), undefined)).toEqual(fetched);
+      expect(showRequests).toBe(1);
+    } finally {
+      Object.assign(runtimeOptions, { interactive, offline });
+    }
+  });
+});
+
+// Runs the CLI in a throwaway home directory, with its config in
+// <home>/xdg-config/zed-api.
+function runCli(home: string, args: string[]) {
+  const env: Record<string, string> = { ...process.env, HOME: home } as Record<string, string>;
+  env.XDG_CONFIG_HOME = join(home, "xdg-config");
+  env.XDG_CACHE_HOME = join(home, "xdg-cache");
+  delete env.ZED_API_PASSPHRASE;
+  delete env.ZED_API_SECRET_BACKEND;
+  return Bun.spawnSync(["bun", join(import.meta.dir, "zed-api.ts"), ...args], {
+    env,
+    stdin: "ignore",
+  });
+}
+
+describe("keys backend", () => {
+  test("warns that a keyfile without a passphrase keeps its master key beside the keys", () => {
+    const home = mkdtempSync(join(testHome, "home-"));
+    const result = runCli(home, ["keys", "backend"]);
+    expect(result.exitCode).toBe(0);
+    const output = result.stdout.toString();
+    expect(output).toContain("keyfile: keyfile (");
+    expect(output).toContain("ZED_API_PASSPHRASE");
+    expect(output).toContain(join(home, "xdg-config", "zed-api", "keys.key"));
+  });
+});
+
+describe("delete", () => {
+  test("removes the provider's request config", () => {
+    const home = mkdtempSync(join(testHome, "home-"));
+    const settingsPath = join(home, "settings.json");
+    const configDir = join(home, "xdg-config", "zed-api");
+    mkdirSync(configDir, { recursive: true });
+    writeFileSync(
+      settingsPath,
+      settingsText({
+        language_models: {
+          openai_compatible: {
+            Local: { api_url: "http://127.0.0.1:9/v1", available_models: [] },
+            Other: { api_url: "http://127.0.0.1:10/v1", available_models: [] },
+          },
+        },
+      }),
+    );
+    writeFileSync(
+      join(configDir, "config.json"),
+      JSON.stringify({
+        providers: {
+          "openai_compatible.Local": { insecure: true, headers: { "X-Team": "1" } },
+          "openai_compatible.Other": { insecure: true },
+        },
+      }),
+    );
+
+    const result = runCli(home, ["delete", "Local", "--yes", "--settings", settingsPath]);
+    expect(result.exitCode).toBe(0);
+    expect(JSON.parse(readFileSync(join(configDir, "config.json"), "utf-8")).providers).toEqual({
+      "openai_compatible.Other": { insecure: true },
+    });
+  });
+});
+
+describe("import", () => {
+  const bundle = (apiUrl: string) =>
+    JSON.stringify({
+      zed_api_bundle: 1,
+      providers: [
+        {
+          family: "openai_compatible",
+          name: "Team",
+          settings: { api_url: apiUrl, available_models: [] },
+        },
+      ],
+    });
+
+  function importBundle(apiUrl: string, args: string[], configured?: string) {
+    const home = mkdtempSync(join(testHome, "home-"));
+    const settingsPath = join(home, "settings.json");
+    const bundlePath = join(home, "bundle.json");
+    writeFileSync(
+      settingsPath,
+      settingsText(
+        configured
+          ? {
+              language_models: {
+                openai_compatible: { Team: { api_url: configured, available_models: [] } },
+              },
+            }
+          : {},
+      ),
+    );
+    writeFileSync(bundlePath, bundle(apiUrl));
+    const result = runCli(home, ["import", bundlePath, "--settings", settingsPath, ...args]);
+    const team = JSON.parse(readFileSync(settingsPath, "utf-8")).language_models?.openai_compatible?.Team;
+    return { result, apiUrl: team?.api_url, output: result.stdout.toString() };
+  }
+
+  test("imports providers on known hosts", () => {
+    const { result, apiUrl, output } = importBundle("https://api.groq.com/openai/v1", []);
+    expect(result.exitCode).toBe(0);
+    expect(apiUrl).toBe("https://api.groq.com/openai/v1");
+    expect(output).toContain("api_url: https://api.groq.com/openai/v1");
+  });
+
+  test("refuses unknown hosts without --accept-urls", () => {
+    const refused = importBundle("https://llm.example.com/v1", []);
+    expect(refused.result.exitCode).toBe(1);
+    expect(refused.apiUrl).toBeUndefined();
+    expect(refused.output).toContain("⚠️  api_url: https://llm.example.com/v1 (not a known provider host)");
+
+    const accepted = importBundle("https://llm.example.com/v1", ["--accept-urls"]);
+    expect(accepted.result.exitCode).toBe(0);
+    expect(accepted.apiUrl).toBe("https://llm.example.com/v1");
+  });
+
+  test("refuses to change the URL of an overwritten provider", () => {
+    const configured = "https://llm.example.com/v1";
+    const same = importBundle(configured, ["--on-conflict", "overwrite"], configured);
+    expect(same.result.exitCode).toBe(0);
+
+    const moved = importBundle("https://api.groq.com/openai/v1", ["--on-conflict", "overwrite"], configured);
+    expect(moved.result.exitCode).toBe(1);
+    expect(moved.apiUrl).toBe(configured);
+    expect(moved.output).toContain(`(replaces ${configured})`);
+  });
+});
+
+describe("probeCapability", () => {
+  // An OpenRouter-like endpoint without tool or image support for the model
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const body: any = await request.json();
+      if (body.tools || Array.isArray(body.messages[0].content)) {
+        return Response.json(
+          { error: { message: "No endpoints found that support tool use" } },
+          { status: 404 },
+        );
+      }
+      if (body.prompt_cache_key) return Response.json({ error: { message: "Not found" } }, { status: 404 });
+      return Response.json({ choices: [{ message: { role: "assistant", content: "OK" } }] });
+    },
+  });
+  afterAll(() => server.stop());
+  const target = () => ({
+    endpoint: `http://127.0.0.1:${server.port}/v1/chat/completions`,
+    headers: { "Content-Type": "application/json" },
+    insecure: false,
+    timeoutMs: 5_000,
+  });
+
+  test("takes a 404 on the tools and images probes as unsupported", async () => {
+    for (const capability of ["tools", "parallel_tool_calls", "images"] as const) {
+      const result = await probeCapability(target(), "vendor/model", capability);
+      expect(result).toMatchObject({ ok: false, inconclusive: false });
+    }
+  });
+
+  test("keeps other 404s inconclusive", async () => {
+    const result = await probeCapability(target(), "vendor/model", "prompt_cache_key");
+    expect(result).toMatchObject({ ok: false, inconclusive: true });
+  });
+});
+
+describe("prompt_cache_key probe", () => {
+  // Reports cached tokens on repeated prompts when caching is on
+  let caching = true;
+  const seen = new Set<string>();
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const body: any = await request.json();
+      const prompt = body.messages[0].content;
+      const cached = caching && seen.has(prompt) ? 1024 : 0;
+      seen.add(prompt);
+      return Response.json({
+        choices: [{ message: { role: "assistant", content: "OK" } }],
+        usage: { prompt_tokens: 1500, prompt_tokens_details: { cached_tokens: cached } },
+      });
+    },
+  });
+  afterAll(() => server.stop());
+  const target = () => ({
+    endpoint: `http://127.0.0.1:${server.port}/v1/chat/completions`,
+    headers: { "Content-Type": "application/json" },
+    insecure: false,
+    timeoutMs: 5_000,
+  });
+
+  test("passes when the repeated prompt hits the cache", async () => {
+    caching = true;
+    seen.clear();
+    expect(await probeCapability(target(), "model", "prompt_cache_key")).toEqual({ ok: true });
+  });
+
+  test("stays unknown when the field is only accepted", async () => {
+    caching = false;
+    const result = await probeCapability(target(), "model", "prompt_cache_key");
+    expect(result).toMatchObject({ ok: false, inconclusive: true, unknown: true });
+  });
+});
+
+describe("settings lock", () => {
+  // The PID of a process that has exited
+  const deadPid = () => Bun.spawnSync(["true"]).pid;
+
+  function lockFile(content: string) {
+    const lockPath = join(mkdtempSync(join(testHome, "lock-")), ".settings.json.zed-api.lock");
+    writeFileSync(lockPath, content);
+    return lockPath;
+  }
+
+  test("finds locks of exited processes stale", () => {
+    expect(staleSettingsLock(lockFile(`${deadPid()}\n`))).not.toBeNull();
+    expect(staleSettingsLock(lockFile(`${process.pid}\n`))).toBeNull();
+    expect(staleSettingsLock(lockFile(""))).toBeNull();
+  });
+
+  test("removes the stale lock it claims", () => {
+    const lockPath = lockFile(`${deadPid()}\n`);
+    claimStaleSettingsLock(lockPath, staleSettingsLock(lockPath)!);
+    expect(existsSync(lockPath)).toBe(false);
+  });
+
+  test("puts back a lock another process took in the meantime", () => {
+    const lockPath = lockFile(`${deadPid()}\n`);
+    const stale = staleSettingsLock(lockPath)!;
+    // Another process claimed the stale lock and created its own
+    rmSync(lockPath);
+    writeFileSync(lockPath, `${process.pid}\n`);
+
+    claimStaleSettingsLock(lockPath, stale);
+    expect(readFileSync(lockPath, "utf-8")).toBe(`${process.pid}\n`);
+    expect(readdirSync(dirname(lockPath))).toEqual([basename(lockPath)]);
+  });
+});
+
+describe("settings snapshots", () => {
+  const historyDir = () => join(testHome, ".config", "zed-api", "history");
+
+  test("keeps the newest snapshots of each settings file", () => {
+    runtimeOptions.settingsPath = "/quiet/settings.json";
+    saveSettingsSnapshot("{}", "{}");
+    runtimeOptions.settingsPath = "/busy/settings.json";
+    for (let i = 0; i < 55; i++) saveSettingsSnapshot(`{ "n": ${i} }`, "{}");
+
+    expect(listSettingsSnapshots()).toHaveLength(50);
+    expect(listSettingsSnapshots()[0].text).toBe('{ "n": 54 }');
+    runtimeOptions.settingsPath = "/quiet/settings.json";
+    expect(listSettingsSnapshots()).toHaveLength(1);
+  });
+
+  test("orders snapshots of the same millisecond by sequence", () => {
+    runtimeOptions.settingsPath = "/same-ms/settings.json";
+    const createdAt = "2026-01-01T00:00:00.000Z";
+    for (const id of ["20260101T000000000Z", "20260101T000000000Z-1", "20260101T000000000Z-10", "20260101T000000000Z-2"]) {
+      writeFileSync(
+        join(historyDir(), `${id}.json`),
+        JSON.stringify({
+          id,
+          created_at: createdAt,
+          settings_path: runtimeOptions.settingsPath,
+          changes: { added: [], removed: [], modified: [] },
+          text: "{}",
+        }),
+      );
+    }
+    expect(listSettingsSnapshots().map((snapshot) => snapshot.id)).toEqual([
+      "20260101T000000000Z-10",
+      "20260101T000000000Z-2",
+      "20260101T000000000Z-1",
+      "20260101T000000000Z",
+    ]);
+  });
+});
@@ -1,13 +1,43 @@
 #!/usr/bin/env bun
 import { homedir } from "os";
-import { join } from "path";
-import { readFileSync, writeFileSync, existsSync } from "fs";
+import { join, dirname, basename, resolve } from "path";
+import {
+  readFileSync,
+  writeFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  chmodSync,
+  realpathSync,
+  unlinkSync,
+  rmSync,
+  linkSync,
+} from "fs";
+import { spawnSync } from "child_process";
+import { rootCertificates } from "tls";
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+  randomUUID,
+  scryptSync,
+} from "crypto";
+import { parseArgs } from "util";
 import * as jsonc from "jsonc-parser";
+import * as yaml from "yaml";
+import { createTwoFilesPatch } from "diff";
+import pc from "picocolors";
 import {
   confirm,
   select,
   multiselect,
+  autocomplete,
+  autocompleteMultiselect,
   text,
+  password,
   spinner,
   note,
   intro,
@@ -19,6 +49,29 @@ interface Model {
   [key: string]: any;
 }
 
+// What a server's own API says about one model.
+interface NativeModelMetadata {
+  context_length?: number;
+  capabilities?: Partial<ModelCapabilities>;
+}
+
+// Reads context lengths and capabilities from a local server's native API,
+// for servers whose /v1/models listing carries neither.
+interface ModelMetadataAdapter {
+  id: string;
+  label: string;
+  // Whether the listing comes from this kind of server.
+  detect: (models: Model[], family: ProviderFamilyId) => boolean;
+  // Null when the server has nothing to add for the model.
+  read: (model: Model, server: NativeServerApi) => Promise<NativeModelMetadata | null>;
+}
+
+// Requests against the server's base URL, with the provider's authentication.
+interface NativeServerApi {
+  // Undefined on any failure; a body sends a POST.
+  fetchJson: (path: string, body?: unknown) => Promise<any>;
+}
+
 interface ModelsResponse {
   data?: Model[];
   models?: Model[];
@@ -27,7 +80,11 @@ interface ModelsResponse {
 interface AvailableModel {
   name: string;
   display_name: string;
+  // Context window.
   max_tokens: number;
+  // Most tokens the model may generate, and the limit Zed requests per completion.
+  max_output_tokens?: number;
+  max_completion_tokens?: number;
   capabilities: {
     tools: boolean;
     images: boolean;
@@ -42,6 +99,206 @@ interface Provider {
 }
 
 type ModelCapabilities = AvailableModel["capabilities"];
+type OutputTokenField = "max_output_tokens" | "max_completion_tokens";
+
+// An available_models entry of any provider family. Only the fields shared by
+// every family are typed; the rest (capabilities, supports_tools, ...) vary.
+type FamilyModel = Record<string, any> & { name: string };
+
+type ProviderFamilyId =
+  | "openai_compatible"
+  | "ollama"
+  | "lmstudio"
+  | "anthropic"
+  | "openai"
+  | "google"
+  | "mistral"
+  | "deepseek";
+
+interface ProviderRef {
+  family: ProviderFamilyId;
+  // The provider name for openai_compatible; the family ID for the other families.
+  name: string;
+}
+
+interface ProviderFamily {
+  id: ProviderFamilyId;
+  label: string;
+  // openai_compatible holds many named providers; every other family is a
+  // single block at language_models.<id>.
+  multiInstance: boolean;
+  defaultApiUrl?: string;
+  // Fixed key variable Zed reads for this family (named providers derive theirs).
+  envVarName?: string;
+  normalizeApiUrl: (apiUrl: string) => string;
+  modelsEndpoint: (apiUrl: string) => string;
+  // OpenAI-style chat completions endpoint used by `check`; unset for families
+  // with their own chat API.
+  chatEndpoint?: (apiUrl: string) => string;
+  authHeaders: (apiKey: string) => Record<string, string>;
+  // Converts the models listing into Model entries keyed by `id`.
+  parseModels: (json: any) => Model[];
+  // Where each capability flag lives inside an available_models entry.
+  capabilityPaths: Partial<Record<keyof ModelCapabilities, string[]>>;
+  // Output limit fields Zed accepts in this family's available_models entries.
+  outputTokenFields: OutputTokenField[];
+}
+
+interface ManifestModelEntry {
+  // Exact model ID or glob pattern (`*` and `?`), matched case-insensitively.
+  match: string;
+  display_name?: string;
+  max_tokens?: number;
+  max_output_tokens?: number;
+  max_completion_tokens?: number;
+  capabilities?: Partial<ModelCapabilities>;
+}
+
+interface ManifestProvider {
+  family: ProviderFamilyId;
+  api_url: string;
+  // When false, only exact model IDs are used and /models is never queried.
+  fetch_models?: boolean;
+  default_max_tokens?: number;
+  models: ManifestModelEntry[];
+}
+
+interface Manifest {
+  providers: Record<string, ManifestProvider>;
+}
+
+// A known service to start a new provider from, built in or from PRESETS_PATH.
+interface ProviderPreset {
+  id: string;
+  label: string;
+  family: ProviderFamilyId;
+  // Suggested provider name for openai_compatible; Zed derives the key variable from it.
+  name: string;
+  // Canonical base URL, kept as-is by normalizeApiUrl even without a /v1 suffix.
+  api_url: string;
+  // Variable the service's own tools read the key from, used when the
+  // provider's variable is unset.
+  env_var?: string;
+  // Authentication style, written to the provider's request settings.
+  request?: ProviderRequestConfig;
+  // Recommended model IDs, offered as one selection.
+  models?: string[];
+  // Known capability and limit corrections, applied to matching new models.
+  overrides?: ManifestModelEntry[];
+  source: "built-in" | "local";
+}
+
+// One change to settings.json; a value of undefined removes the node.
+interface SettingsEdit {
+  path: jsonc.JSONPath;
+  value: any;
+}
+
+// A problem `lint` found in settings.json.
+interface SettingsIssue {
+  severity: "error" | "warning";
+  // Node the issue is about; [] for syntax errors, which carry an offset instead.
+  path: jsonc.JSONPath;
+  offset?: number;
+  message: string;
+  // Edit that resolves the issue.
+  fix?: SettingsEdit & { description: string };
+}
+
+// An edit computed against settings.json as it was read, replayed onto the
+// file as it is now. Conflicts are the paths both sides changed differently.
+interface SettingsRebase {
+  text: string;
+  conflicts: jsonc.JSONPath[];
+}
+
+interface SettingsSnapshot {
+  id: string;
+  created_at: string;
+  settings_path: string;
+  // Providers that the write following this snapshot added/removed/modified.
+  changes: { added: string[]; removed: string[]; modified: string[] };
+  // Set when the snapshot was taken by `undo`; names the snapshot it reverted to.
+  undo_of?: string;
+  text: string;
+}
+
+// Where a capability flag of a newly added model came from.
+type CapabilitySource = "provider" | "openrouter" | "probe" | "default";
+type CapabilitySources = Record<keyof ModelCapabilities, CapabilitySource>;
+
+interface ProbeResult {
+  ok: boolean;
+  error?: string;
+  // Timeouts, network errors and auth, 429 or 5xx responses say nothing about
+  // whether the model supports a capability, so they never change a flag.
+  // Neither does a 404, except on a tool or image probe of a model that
+  // already answered a plain chat request.
+  inconclusive?: boolean;
+  // The request worked but showed nothing either way (a prompt_cache_key the
+  // server may have ignored); always inconclusive too.
+  unknown?: boolean;
+}
+
+interface ModelCheckResult {
+  ref: ProviderRef;
+  // Index into the provider's available_models.
+  modelIndex: number;
+  model: FamilyModel;
+  chat: ProbeResult & { ttftMs?: number; tokensPerSecond?: number };
+  probes: Partial<Record<keyof ModelCapabilities, ProbeResult>>;
+}
+
+// Chat endpoint and auth used to probe models of one provider.
+interface ProbeTarget {
+  endpoint: string;
+  headers: Record<string, string>;
+  insecure: boolean;
+  timeoutMs: number;
+}
+
+interface CapabilityCorrection {
+  ref: ProviderRef;
+  modelName: string;
+  capability: keyof ModelCapabilities;
+  from: boolean | undefined;
+  to: boolean;
+}
+
+// A configured model whose metadata no longer matches what the provider reports.
+interface ModelDrift {
+  name: string;
+  changes: string[];
+  // The configured entry with the reported context length and capabilities applied.
+  model: FamilyModel;
+  // Set when the update lowers a limit or turns a capability off. Those values
+  // may have been set on purpose or verified with a probe, so it is opt-in.
+  lowers: boolean;
+}
+
+interface ProviderAudit {
+  ref: ProviderRef;
+  // Set when the model list could not be fetched; nothing else is filled in.
+  error?: string;
+  missing: string[];
+  drifted: ModelDrift[];
+  // Unconfigured models that look like a newer version of a configured one.
+  published: { id: string; pattern: string }[];
+  fetchedModels: Model[];
+}
+
+type AuditActionKind = "prune" | "update" | "add";
+
+interface ProviderPlan {
+  ref: ProviderRef;
+  action: "add" | "update" | "unchanged";
+  apiUrl: { from?: string; to: string };
+  added: string[];
+  removed: string[];
+  updated: { name: string; changes: string[] }[];
+  warnings: string[];
+  models: FamilyModel[];
+}
 
 type OpenRouterModel = {
   id: string;
@@ -60,8 +317,203 @@ type OpenRouterModel = {
     max_completion_tokens?: number | null;
     is_moderated?: boolean | null;
   } | null;
+  // USD per token, as decimal strings.
+  pricing?: {
+    prompt?: string | null;
+    completion?: string | null;
+  } | null;
+  created?: number | null;
+};
+
+// USD per million tokens. "local" covers servers on this machine, which cost nothing per token.
+interface ModelPricing {
+  prompt: number;
+  completion: number;
+  source: "provider" | "openrouter" | "free-tier" | "local";
+}
+
+// A fetched model as shown in the model picker.
+interface ModelListing {
+  id: string;
+  contextLength?: number;
+  inputModalities?: string[];
+  tools?: boolean;
+  images?: boolean;
+  pricing?: ModelPricing;
+  // Unix seconds.
+  created?: number;
+}
+
+type ModelSortKey = "name" | "context" | "price" | "newest";
+
+// Parsed model picker search. Every part must match.
+interface ModelQuery {
+  terms: string[];
+  excluded: string[];
+  patterns: RegExp[];
+  capabilities: ("tools" | "images")[];
+  minContext?: number;
+  maxPrice?: number;
+  sort: ModelSortKey;
+}
+
+interface CacheEntry {
+  url: string;
+  fetched_at: string;
+  etag?: string;
+  last_modified?: string;
+  body: any;
+}
+
+type SecretBackendId = "keyfile" | "secret-service" | "pass";
+
+interface SecretBackend {
+  id: SecretBackendId;
+  label: string;
+  // Every method throws when the backend itself is unusable (missing tool,
+  // wrong passphrase); `get` returns undefined for a key that is not stored.
+  get: (name: string) => string | undefined;
+  set: (name: string, value: string) => void;
+  remove: (name: string) => boolean;
+  list: () => string[];
+}
+
+interface EncryptedKeyfile {
+  version: 1;
+  // "master-key": random key in keys.key next to the file;
+  // "scrypt": derived from ZED_API_PASSPHRASE.
+  kdf: "master-key" | "scrypt";
+  salt?: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+type ShellKind = "bash" | "zsh" | "fish" | "sh";
+
+interface ShellIntegration {
+  shell: ShellKind;
+  // Startup file the shell reads for interactive sessions.
+  rcPath: string;
+  // "rc": exports live in the rc file's managed block; "env-file": they live in
+  // a separate file under ~/.config/zed-api that the rc block sources.
+  target: "rc" | "env-file";
+  exportsPath: string;
+}
+
+interface SettingsLocation {
+  label: string;
+  path: string;
+}
+
+interface ZedApiConfig {
+  secret_backend?: SecretBackendId;
+  shell?: ShellKind;
+  shell_target?: ShellIntegration["target"];
+  providers?: Record<string, ProviderRequestConfig>;
+}
+
+// How requests to one provider are authenticated, stored in the tool's config
+// file under providerConfigKey(). Unset fields fall back to the family default.
+interface ProviderRequestConfig {
+  // Header the API key is sent in (default "Authorization").
+  auth_header?: string;
+  // Prefix before the key; defaults to "Bearer" for Authorization and to
+  // nothing for other headers.
+  auth_scheme?: string;
+  // Send the key as this query parameter instead of a header.
+  auth_query_param?: string;
+  // Extra static headers, e.g. OpenAI-Organization.
+  headers?: Record<string, string>;
+  // Extra query parameters, e.g. api-version.
+  query?: Record<string, string>;
+  // Skip TLS certificate verification, for gateways with self-signed certificates.
+  insecure?: boolean;
+}
+
+// An inference server found by `discover`.
+interface DiscoveredServer {
+  host: string;
+  port: number;
+  // The api_url to configure it with.
+  apiUrl: string;
+  // Preset for the server type; a generic OpenAI-compatible one when unknown.
+  preset: ProviderPreset;
+  // Whether the type was read from the response or only guessed from the port.
+  identifiedBy: "response" | "port" | "none";
+  models: string[];
+  // The server answered 401/403, so its models are unknown until a key is set.
+  needsKey: boolean;
+}
+
+// A shareable set of provider blocks, written by `export` and read by `import`.
+interface ProviderBundle {
+  zed_api_bundle: number;
+  exported_at: string;
+  providers: BundleProvider[];
+}
+
+interface BundleProvider {
+  family: ProviderFamilyId;
+  // The provider name for openai_compatible; the family ID for the other families.
+  name: string;
+  // Variable Zed reads the key from; the key itself is never exported.
+  env_var: string;
+  // The provider's settings.json block.
+  settings: Record<string, any>;
+  request?: ProviderRequestConfig;
+}
+
+type ImportConflictPolicy = "skip" | "overwrite" | "rename";
+
+interface BundleImport {
+  entry: BundleProvider;
+  // Where the provider is written; differs from the bundle name when renamed.
+  ref: ProviderRef;
+  action: "add" | ImportConflictPolicy;
+}
+
+// Per-request overrides of the network settings in RuntimeOptions.
+interface NetworkOptions {
+  insecure?: boolean;
+  timeoutMs?: number;
+  // Overrides runtimeOptions.retries for GET requests.
+  retries?: number;
+}
+
+interface RuntimeOptions {
+  // False when running a subcommand: never prompt, fail with an exit code instead.
+  interactive: boolean;
+  // Show the diff of every settings.json change but never write it.
+  dryRun: boolean;
+  // Ignore the cache TTL and revalidate every model list.
+  refresh: boolean;
+  // Never touch the network; model lists come from the cache only.
+  offline: boolean;
+  // The settings.json every read and write goes to.
+  settingsPath: string;
+  // Extra root certificates (PEM) trusted on top of the bundled ones.
+  caFile?: string;
+  // Overrides the HTTPS_PROXY/HTTP_PROXY/NO_PROXY handling of the runtime.
+  proxy?: string;
+  requestTimeoutSeconds: number;
+  // Extra attempts for GET requests that time out, fail to connect or get a
+  // 429/502/503/504.
+  retries: number;
+}
+
+const runtimeOptions: RuntimeOptions = {
+  interactive: true,
+  dryRun: false,
+  refresh: false,
+  offline: false,
+  settingsPath: join(xdgConfigHome(), "zed/settings.json"),
+  requestTimeoutSeconds: 30,
+  retries: 2,
 };
 
+const storedKeyLookups = new Map<string, string | undefined>();
+
 let openRouterModelsCache: OpenRouterModel[] | null = null;
 let openRouterModelsLoading: Promise<OpenRouterModel[]> | null = null;
 
@@ -103,15 +555,17 @@ async function fetchOpenRouterModels(): Promise<OpenRouterModel[]> {
   if (openRouterModelsLoading) return openRouterModelsLoading;
 
   openRouterModelsLoading = (async () => {
-    const response = await fetch("https://openrouter.ai/api/v1/models", {
-      headers: { "Content-Type": "application/json" },
-    });
+    const { body, response } = await fetchJsonWithCache(
+      OPENROUTER_MODELS_URL,
+      { "Content-Type": "application/json" },
+      OPENROUTER_CACHE_TTL_SECONDS,
+    );
 
-    if (!response.ok) {
+    if (response) {
       throw new Error(`OpenRouter models fetch failed: HTTP ${response.status}`);
     }
 
-    const json = (await response.json()) as { data?: OpenRouterModel[] };
+    const json = body as { data?: OpenRouterModel[] };
     const models = Array.isArray(json?.data) ? json.data : [];
     openRouterModelsCache = models;
     return models;
@@ -124,59 +578,74 @@ async function fetchOpenRouterModels(): Promise<OpenRouterModel[]> {
   }
 }
 
-function findBestOpenRouterModelMatch(
-  modelId: string,
-  openRouterModels: OpenRouterModel[],
-): OpenRouterModel | null {
+type ModelMatchCandidate = {
+  id: string;
+  name?: string | null;
+  canonical_slug?: string | null;
+};
+
+function scoreModelMatch(modelId: string, m: ModelMatchCandidate): number {
   const normalized = normalizeModelIdForMatch(modelId);
   const suffix = modelIdSuffix(modelId);
   const tokens = tokenizeId(modelId);
 
-  let best: { score: number; model: OpenRouterModel } | null = null;
+  const mId = normalizeModelIdForMatch(m.id);
+  const mSuffix = modelIdSuffix(m.id);
 
-  for (const m of openRouterModels) {
-    const mId = normalizeModelIdForMatch(m.id);
-    const mSuffix = modelIdSuffix(m.id);
+  let score = 0;
 
-    let score = 0;
+  // Exact match - highest score
+  if (mId === normalized) score += 1000;
 
-    // Exact match - highest score
-    if (mId === normalized) score += 1000;
+  // Suffix exact match - very high score
+  if (mSuffix === suffix) score += 500;
 
-    // Suffix exact match - very high score
-    if (mSuffix === suffix) score += 500;
+  // Substring match
+  if (mId.includes(normalized) || normalized.includes(mId)) score += 150;
+  if (mSuffix.includes(suffix) || suffix.includes(mSuffix)) score += 75;
 
-    // Substring match
-    if (mId.includes(normalized) || normalized.includes(mId)) score += 150;
-    if (mSuffix.includes(suffix) || suffix.includes(mSuffix)) score += 75;
+  // Token overlap to catch close-but-not-identical names.
+  const overlap = jaccard(tokens, tokenizeId(m.id));
+  score += overlap * 100;
 
-    // Token overlap to catch close-but-not-identical names.
-    const overlap = jaccard(tokens, tokenizeId(m.id));
-    score += overlap * 100;
+  // Enhanced: Check if core model tokens match (e.g., "glm", "4", "7")
+  // This helps match "zai-org/GLM-4.7-TEE" to "z-ai/glm-4.7"
+  const mTokens = tokenizeId(m.id);
+  const coreTokens = tokens.filter(t => t.length > 1 || /^\d+$/.test(t)); // Keep tokens >1 char or numbers
+  const mCoreTokens = mTokens.filter(t => t.length > 1 || /^\d+$/.test(t));
 
-    // Enhanced: Check if core model tokens match (e.g., "glm", "4", "7")
-    // This helps match "zai-org/GLM-4.7-TEE" to "z-ai/glm-4.7"
-    const mTokens = tokenizeId(m.id);
-    const coreTokens = tokens.filter(t => t.length > 1 || /^\d+$/.test(t)); // Keep tokens >1 char or numbers
-    const mCoreTokens = mTokens.filter(t => t.length > 1 || /^\d+$/.test(t));
+  if (coreTokens.length > 0 && mCoreTokens.length > 0) {
+    const coreOverlap = jaccard(coreTokens, mCoreTokens);
+    score += coreOverlap * 150; // Higher weight for core token overlap
+  }
 
-    if (coreTokens.length > 0 && mCoreTokens.length > 0) {
-      const coreOverlap = jaccard(coreTokens, mCoreTokens);
-      score += coreOverlap * 150; // Higher weight for core token overlap
-    }
+  // Bonus if the model name/slug contains the suffix. Provider model lists
+  // don't always use strings here.
+  const name = typeof m.name === "string" ? m.name.toLowerCase() : "";
+  const slug = typeof m.canonical_slug === "string" ? m.canonical_slug.toLowerCase() : "";
+  if (name.includes(suffix) || slug.includes(suffix)) score += 25;
 
-    // Bonus if the model name/slug contains the suffix.
-    const name = (m.name || "").toLowerCase();
-    const slug = (m.canonical_slug || "").toLowerCase();
-    if (name.includes(suffix) || slug.includes(suffix)) score += 25;
+  return score;
+}
 
-    if (!best || score > best.score) best = { score, model: m };
-  }
+// Lowered threshold to 150 for fuzzy matching (handles provider prefix differences)
+// e.g., "zai-org/GLM-4.7-TEE" matches "z-ai/glm-4.7" via model name similarity
+const MODEL_MATCH_THRESHOLD = 150;
+
+// Candidates scoring at least the threshold, best first (ties keep list order).
+function rankModelMatches<T extends ModelMatchCandidate>(modelId: string, candidates: T[]): T[] {
+  return candidates
+    .map((model) => ({ model, score: scoreModelMatch(modelId, model) }))
+    .filter(({ score }) => score >= MODEL_MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .map(({ model }) => model);
+}
 
-  // Lowered threshold to 150 for fuzzy matching (handles provider prefix differences)
-  // e.g., "zai-org/GLM-4.7-TEE" matches "z-ai/glm-4.7" via model name similarity
-  if (!best || best.score < 150) return null;
-  return best.model;
+function findBestOpenRouterModelMatch(
+  modelId: string,
+  openRouterModels: OpenRouterModel[],
+): OpenRouterModel | null {
+  return rankModelMatches(modelId, openRouterModels)[0] ?? null;
 }
 
 function capabilitiesFromSupportedParameters(
@@ -220,6 +689,143 @@ function inferCapabilitiesFromProviderModel(model: any): Partial<ModelCapabiliti
   };
 }
 
+const MODEL_METADATA_ADAPTERS: ModelMetadataAdapter[] = [
+  {
+    id: "ollama",
+    label: "Ollama",
+    // Ollama's /v1/models reports library models as owned by "library"
+    detect: (models, family) =>
+      family === "ollama" || models.some((m) => m.owned_by === "library"),
+    read: async (model, server) => {
+      const show = await server.fetchJson("/api/show", { model: model.id });
+      if (!show || typeof show !== "object") return null;
+
+      // A num_ctx set in the Modelfile wins over the trained context length
+      const numCtx = String(show.parameters ?? "").match(/^\s*num_ctx\s+(\d+)/m)?.[1];
+      const architecture = show.model_info?.["general.architecture"];
+      const trained = show.model_info?.[`${architecture}.context_length`];
+      // Older versions have no capabilities list; read the template and projector instead
+      const listed: string[] | undefined = Array.isArray(show.capabilities)
+        ? show.capabilities
+        : undefined;
+      return {
+        context_length: positiveNumber(numCtx) ?? positiveNumber(trained),
+        capabilities: {
+          tools: listed
+            ? listed.includes("tools")
+            : typeof show.template === "string"
+              ? show.template.includes(".Tools")
+              : undefined,
+          images: listed
+            ? listed.includes("vision")
+            : show.projector_info
+              ? true
+              : show.model_info
+                ? false
+                : undefined,
+        },
+      };
+    },
+  },
+  {
+    id: "vllm",
+    label: "vLLM",
+    detect: (models) => models.some((m) => typeof m.max_model_len === "number"),
+    read: async (model) => {
+      const contextLength = positiveNumber(model.max_model_len);
+      return contextLength ? { context_length: contextLength } : null;
+    },
+  },
+  {
+    id: "llamacpp",
+    label: "llama.cpp",
+    detect: (models) =>
+      models.some((m) => m.owned_by === "llamacpp" || m.meta?.n_ctx_train !== undefined),
+    read: async (_model, server) => {
+      const props = await server.fetchJson("/props");
+      if (!props || typeof props !== "object") return null;
+      // n_ctx is the context of one slot, which is what a request gets
+      const nCtx = props.default_generation_settings?.n_ctx ?? props.n_ctx;
+      // Newer servers report what the chat template supports; older ones leave tools unknown
+      const templateCaps = props.chat_template_caps;
+      return {
+        context_length: positiveNumber(nCtx),
+        capabilities: {
+          tools: toBool(templateCaps?.supports_tool_calls ?? templateCaps?.supports_tools),
+          images: toBool(props.modalities?.vision),
+        },
+      };
+    },
+  },
+];
+
+// The server root behind a models endpoint, keeping the sub-path it may be
+// served under: http://gpu-box/ollama/v1/models/ → http://gpu-box/ollama
+function nativeServerBaseUrl(endpoint: string): string {
+  const url = new URL(endpoint);
+  const path = url.pathname
+    .replace(/\/+$/, "")
+    .replace(/\/(api\/tags|v1\/models|models)$/, "");
+  return `${url.origin}${path}`;
+}
+
+// Fills context_length and capabilities of listed models from the native API
+// of the server behind the models endpoint, for the first adapter that
+// recognizes the listing. Responses are cached like the model list, so a
+// cached list is enriched without requests (and with --offline). Failed
+// requests leave a model as listed.
+async function applyModelMetadataAdapters(
+  models: Model[],
+  endpoint: string,
+  ref: ProviderRef | undefined,
+  apiKey?: string,
+): Promise<Model[]> {
+  const family = ref?.family ?? "openai_compatible";
+  const adapter = MODEL_METADATA_ADAPTERS.find((a) => a.detect(models, family));
+  if (!adapter) return models;
+
+  const baseUrl = nativeServerBaseUrl(endpoint);
+  const server: NativeServerApi = {
+    fetchJson: async (path, body) => {
+      const request = providerRequest(ref, `${baseUrl}${path}`, apiKey);
+      try {
+        const { body: json, response } = await fetchJsonWithCache(
+          request.url,
+          request.headers,
+          MODELS_CACHE_TTL_SECONDS,
+          apiKey,
+          { insecure: request.insecure },
+          body,
+        );
+        return response ? undefined : json;
+      } catch {
+        return undefined;
+      }
+    },
+  };
+
+  const s = runtimeOptions.interactive
+    ? spinner()
+    : { start: (_msg: string) => {}, stop: (_msg: string) => {} };
+  s.start(`Reading model details from ${adapter.label}`);
+  const enriched: Model[] = [];
+  for (const model of models) {
+    const metadata = await adapter.read(model, server);
+    const capabilities = Object.fromEntries(
+      Object.entries(metadata?.capabilities ?? {}).filter(([, value]) => typeof value === "boolean"),
+    );
+    enriched.push({
+      ...model,
+      ...(metadata?.context_length ? { context_length: metadata.context_length } : {}),
+      ...(Object.keys(capabilities).length > 0
+        ? { capabilities: { ...model.capabilities, ...capabilities } }
+        : {}),
+    });
+  }
+  s.stop(`Read model details from ${adapter.label}`);
+  return enriched;
+}
+
 function finalizeCapabilities(
   partial: Partial<ModelCapabilities>,
   defaults: ModelCapabilities,
@@ -232,11 +838,32 @@ function finalizeCapabilities(
   };
 }
 
+function mergeCapabilitySources(
+  partial: Partial<ModelCapabilities>,
+  source: CapabilitySource,
+  previous: CapabilitySources,
+): CapabilitySources {
+  const pick = (key: keyof ModelCapabilities) =>
+    typeof partial[key] === "boolean" ? source : previous[key];
+  return {
+    tools: pick("tools"),
+    images: pick("images"),
+    parallel_tool_calls: pick("parallel_tool_calls"),
+    prompt_cache_key: pick("prompt_cache_key"),
+  };
+}
+
 async function inferModelSettings(
   modelId: string,
   providerModel: any,
   defaultMaxTokens: number,
-): Promise<{ capabilities: ModelCapabilities; max_tokens: number }> {
+): Promise<{
+  capabilities: ModelCapabilities;
+  max_tokens: number;
+  // Unset when neither the provider nor OpenRouter reports an output limit.
+  max_output_tokens?: number;
+  sources: CapabilitySources;
+}> {
   const defaultCapabilities: ModelCapabilities = {
     tools: true,
     images: false,
@@ -252,6 +879,12 @@ async function inferModelSettings(
   // If the provider includes capabilities signals, trust them (and only fallback if
   // there are still unknowns we care about).
   let capabilities = finalizeCapabilities(fromProvider, defaultCapabilities);
+  let sources = mergeCapabilitySources(fromProvider, "provider", {
+    tools: "default",
+    images: "default",
+    parallel_tool_calls: "default",
+    prompt_cache_key: "default",
+  });
   let maxTokens = defaultMaxTokens;
 
   // Use context_length if provider advertises it (this is the total context window).
@@ -266,13 +899,20 @@ async function inferModelSettings(
     maxTokens = topProviderContextLength;
   }
 
+  // Output limit: OpenRouter-style top_provider, or a flat field some providers use.
+  let maxOutputTokens = [
+    providerModel?.top_provider?.max_completion_tokens,
+    providerModel?.max_output_tokens,
+    providerModel?.max_completion_tokens,
+  ].find((v): v is number => typeof v === "number" && v > 0);
+
   const stillDefaulted =
     !providerHasSignal &&
     capabilities.tools === defaultCapabilities.tools &&
     capabilities.images === defaultCapabilities.images;
 
   if (!stillDefaulted) {
-    return { capabilities, max_tokens: maxTokens };
+    return { capabilities, max_tokens: maxTokens, max_output_tokens: maxOutputTokens, sources };
   }
 
   // Fallback: best-effort lookup using OpenRouter's public model registry.
@@ -280,19 +920,26 @@ async function inferModelSettings(
   try {
     const openRouterModels = await fetchOpenRouterModels();
     const match = findBestOpenRouterModelMatch(modelId, openRouterModels);
-    if (!match) return { capabilities, max_tokens: maxTokens };
+    if (!match) {
+      return { capabilities, max_tokens: maxTokens, max_output_tokens: maxOutputTokens, sources };
+    }
 
     const fromOR: Partial<ModelCapabilities> = {
       ...capabilitiesFromSupportedParameters(match.supported_parameters),
       ...capabilitiesFromArchitecture(match.architecture),
-      // OpenRouter does not expose a stable prompt-cache-key capability.
-      prompt_cache_key: false,
     };
-    capabilities = finalizeCapabilities(fromOR, capabilities);
+    // OpenRouter does not expose a stable prompt-cache-key capability.
+    capabilities = finalizeCapabilities({ ...fromOR, prompt_cache_key: false }, capabilities);
+    sources = mergeCapabilitySources(fromOR, "openrouter", sources);
 
-    // Use context_length from OpenRouter (this is the total context window).
+    // Use context_length from OpenRouter (this is the total context window),
+    // unless the provider reported its own, e.g. a local server's real limit.
     const orContextLength = match.context_length;
-    if (typeof orContextLength === "number" && orContextLength > 0) {
+    const providerReportedContext =
+      positiveNumber(providerContextLength) ?? positiveNumber(topProviderContextLength);
+    if (providerReportedContext) {
+      maxTokens = providerReportedContext;
+    } else if (typeof orContextLength === "number" && orContextLength > 0) {
       maxTokens = orContextLength;
     } else {
       // Fallback to top_provider.context_length if available.
@@ -301,23 +948,595 @@ async function inferModelSettings(
         maxTokens = orTopProviderContextLength;
       }
     }
+
+    const orMaxCompletionTokens = match.top_provider?.max_completion_tokens;
+    if (!maxOutputTokens && typeof orMaxCompletionTokens === "number" && orMaxCompletionTokens > 0) {
+      maxOutputTokens = orMaxCompletionTokens;
+    }
   } catch {
     // Ignore network / parsing errors and keep defaults.
   }
 
-  return { capabilities, max_tokens: maxTokens };
+  return { capabilities, max_tokens: maxTokens, max_output_tokens: maxOutputTokens, sources };
+}
+
+const EMPTY_SETTINGS_TEXT = "{\n}\n";
+// Zed release channels keep separate config dirs; Flatpak installs nest them under ~/.var/app.
+const ZED_CONFIG_DIRS: { label: string; dir: string }[] = [
+  { label: "Zed", dir: join(xdgConfigHome(), "zed") },
+  { label: "Zed Preview", dir: join(xdgConfigHome(), "zed-preview") },
+  { label: "Zed Dev", dir: join(xdgConfigHome(), "zed-dev") },
+  { label: "Zed (Flatpak)", dir: join(homedir(), ".var/app/dev.zed.Zed/config/zed") },
+  {
+    label: "Zed Preview (Flatpak)",
+    dir: join(homedir(), ".var/app/dev.zed.Zed-Preview/config/zed"),
+  },
+];
+const ZED_API_CONFIG_DIR = join(xdgConfigHome(), "zed-api");
+const HISTORY_DIR = join(ZED_API_CONFIG_DIR, "history");
+const HISTORY_LIMIT = 50;
+const SETTINGS_LOCK_TIMEOUT_MS = 10_000;
+const SETTINGS_LOCK_STALE_MS = 60_000;
+const ZED_API_CONFIG_PATH = join(ZED_API_CONFIG_DIR, "config.json");
+const PRESETS_PATH = join(ZED_API_CONFIG_DIR, "presets.json");
+const KEYFILE_PATH = join(ZED_API_CONFIG_DIR, "keys.enc");
+const KEYFILE_MASTER_KEY_PATH = join(ZED_API_CONFIG_DIR, "keys.key");
+// Service attribute for Secret Service, folder for pass.
+const SECRET_NAMESPACE = "zed-api";
+const SHELL_KINDS: ShellKind[] = ["bash", "zsh", "fish", "sh"];
+const SHELL_BLOCK_BEGIN = "# >>> zed-api (managed block, edits are overwritten) >>>";
+const SHELL_BLOCK_END = "# <<< zed-api <<<";
+const CACHE_DIR = join(process.env.XDG_CACHE_HOME || join(homedir(), ".cache"), "zed-api");
+const MODELS_CACHE_TTL_SECONDS = 60 * 60;
+const OPENROUTER_MODELS_URL = "https://openrouter.ai/api/v1/models";
+const OPENROUTER_CACHE_TTL_SECONDS = 24 * 60 * 60;
+
+const OPENAI_CAPABILITY_PATHS: ProviderFamily["capabilityPaths"] = {
+  tools: ["capabilities", "tools"],
+  images: ["capabilities", "images"],
+  parallel_tool_calls: ["capabilities", "parallel_tool_calls"],
+  prompt_cache_key: ["capabilities", "prompt_cache_key"],
+};
+
+function trimTrailingSlashes(apiUrl: string): string {
+  return apiUrl.replace(/\/+$/, "");
+}
+
+function bearerAuthHeaders(apiKey: string): Record<string, string> {
+  return { Authorization: `Bearer ${apiKey}` };
+}
+
+function parseOpenAIStyleModels(json: any): Model[] {
+  // Handle OpenAI-style {data: [...]}, direct {models: [...]} and a bare list (Together)
+  const models = Array.isArray(json) ? json : json?.data || json?.models || [];
+  return Array.isArray(models) ? models : [];
+}
+
+const PROVIDER_FAMILIES: Record<ProviderFamilyId, ProviderFamily> = {
+  openai_compatible: {
+    id: "openai_compatible",
+    label: "OpenAI-compatible",
+    multiInstance: true,
+    normalizeApiUrl,
+    modelsEndpoint: getModelsEndpoint,
+    chatEndpoint: getChatCompletionsEndpoint,
+    authHeaders: bearerAuthHeaders,
+    parseModels: parseOpenAIStyleModels,
+    capabilityPaths: OPENAI_CAPABILITY_PATHS,
+    outputTokenFields: ["max_output_tokens", "max_completion_tokens"],
+  },
+  ollama: {
+    id: "ollama",
+    label: "Ollama",
+    multiInstance: false,
+    defaultApiUrl: "http://localhost:11434",
+    normalizeApiUrl: (apiUrl) => trimTrailingSlashes(apiUrl).replace(/\/v1$/, ""),
+    modelsEndpoint: (apiUrl) => `${apiUrl}/api/tags`,
+    chatEndpoint: (apiUrl) => `${apiUrl}/v1/chat/completions`,
+    authHeaders: bearerAuthHeaders,
+    parseModels: (json) =>
+      (Array.isArray(json?.models) ? json.models : []).map((m: any) => ({
+        ...m,
+        id: m.name ?? m.model,
+      })),
+    capabilityPaths: {
+      tools: ["supports_tools"],
+      images: ["supports_images"],
+    },
+    outputTokenFields: [],
+  },
+  lmstudio: {
+    id: "lmstudio",
+    label: "LM Studio",
+    multiInstance: false,
+    defaultApiUrl: "http://localhost:1234/api/v0",
+    normalizeApiUrl: trimTrailingSlashes,
+    modelsEndpoint: (apiUrl) => `${apiUrl.replace(/\/(api\/v0|v1)$/, "")}/v1/models`,
+    chatEndpoint: (apiUrl) =>
+      `${apiUrl.replace(/\/(api\/v0|v1)$/, "")}/v1/chat/completions`,
+    authHeaders: bearerAuthHeaders,
+    parseModels: parseOpenAIStyleModels,
+    capabilityPaths: {
+      tools: ["supports_tool_calls"],
+      images: ["supports_images"],
+    },
+    outputTokenFields: [],
+  },
+  anthropic: {
+    id: "anthropic",
+    label: "Anthropic",
+    multiInstance: false,
+    defaultApiUrl: "https://api.anthropic.com",
+    envVarName: "ANTHROPIC_API_KEY",
+    normalizeApiUrl: trimTrailingSlashes,
+    modelsEndpoint: (apiUrl) => `${apiUrl.replace(/\/v1$/, "")}/v1/models?limit=1000`,
+    authHeaders: (apiKey) => ({ "x-api-key": apiKey, "anthropic-version": "2023-06-01" }),
+    parseModels: parseOpenAIStyleModels,
+    capabilityPaths: {},
+    outputTokenFields: ["max_output_tokens"],
+  },
+  openai: {
+    id: "openai",
+    label: "OpenAI",
+    multiInstance: false,
+    defaultApiUrl: "https://api.openai.com/v1",
+    envVarName: "OPENAI_API_KEY",
+    normalizeApiUrl,
+    modelsEndpoint: getModelsEndpoint,
+    chatEndpoint: getChatCompletionsEndpoint,
+    authHeaders: bearerAuthHeaders,
+    parseModels: parseOpenAIStyleModels,
+    capabilityPaths: {},
+    outputTokenFields: ["max_output_tokens", "max_completion_tokens"],
+  },
+  google: {
+    id: "google",
+    label: "Google AI",
+    multiInstance: false,
+    defaultApiUrl: "https://generativelanguage.googleapis.com",
+    envVarName: "GEMINI_API_KEY",
+    normalizeApiUrl: trimTrailingSlashes,
+    modelsEndpoint: (apiUrl) => `${apiUrl}/v1beta/models?pageSize=1000`,
+    authHeaders: (apiKey) => ({ "x-goog-api-key": apiKey }),
+    parseModels: (json) =>
+      (Array.isArray(json?.models) ? json.models : []).map((m: any) => ({
+        id: String(m.name).replace(/^models\//, ""),
+        display_name: m.displayName,
+        context_length: m.inputTokenLimit,
+        max_output_tokens: m.outputTokenLimit,
+      })),
+    capabilityPaths: {},
+    outputTokenFields: [],
+  },
+  mistral: {
+    id: "mistral",
+    label: "Mistral",
+    multiInstance: false,
+    defaultApiUrl: "https://api.mistral.ai/v1",
+    envVarName: "MISTRAL_API_KEY",
+    normalizeApiUrl,
+    modelsEndpoint: getModelsEndpoint,
+    chatEndpoint: getChatCompletionsEndpoint,
+    authHeaders: bearerAuthHeaders,
+    parseModels: (json) =>
+      parseOpenAIStyleModels(json).map((m: any) => ({
+        ...m,
+        context_length: m.max_context_length ?? m.context_length,
+        capabilities: {
+          tools: m.capabilities?.function_calling ?? m.capabilities?.tools,
+          images: m.capabilities?.vision ?? m.capabilities?.images,
+        },
+      })),
+    capabilityPaths: {
+      tools: ["supports_tools"],
+      images: ["supports_images"],
+    },
+    outputTokenFields: ["max_output_tokens", "max_completion_tokens"],
+  },
+  deepseek: {
+    id: "deepseek",
+    label: "DeepSeek",
+    multiInstance: false,
+    defaultApiUrl: "https://api.deepseek.com/v1",
+    envVarName: "DEEPSEEK_API_KEY",
+    normalizeApiUrl,
+    modelsEndpoint: getModelsEndpoint,
+    chatEndpoint: getChatCompletionsEndpoint,
+    authHeaders: bearerAuthHeaders,
+    parseModels: parseOpenAIStyleModels,
+    capabilityPaths: {},
+    outputTokenFields: ["max_output_tokens"],
+  },
+};
+
+const BUILT_IN_PRESETS: Omit<ProviderPreset, "source">[] = [
+  {
+    id: "openrouter",
+    label: "OpenRouter",
+    family: "openai_compatible",
+    name: "OpenRouter",
+    api_url: "https://openrouter.ai/api/v1",
+    models: ["anthropic/claude-sonnet-4", "openai/gpt-4o", "google/gemini-2.5-pro"],
+  },
+  {
+    id: "together",
+    label: "Together AI",
+    family: "openai_compatible",
+    name: "Together",
+    api_url: "https://api.together.xyz/v1",
+    models: ["meta-llama/Llama-3.3-70B-Instruct-Turbo", "deepseek-ai/DeepSeek-V3", "Qwen/Qwen2.5-Coder-32B-Instruct"],
+  },
+  {
+    id: "groq",
+    label: "Groq",
+    family: "openai_compatible",
+    name: "Groq",
+    api_url: "https://api.groq.com/openai/v1",
+    models: ["llama-3.3-70b-versatile", "llama-3.1-8b-instant"],
+    overrides: [{ match: "meta-llama/llama-4-*", capabilities: { tools: true, images: true } }],
+  },
+  {
+    id: "fireworks",
+    label: "Fireworks AI",
+    family: "openai_compatible",
+    name: "Fireworks",
+    api_url: "https://api.fireworks.ai/inference/v1",
+    models: ["accounts/fireworks/models/llama-v3p3-70b-instruct", "accounts/fireworks/models/deepseek-v3"],
+  },
+  {
+    id: "deepinfra",
+    label: "DeepInfra",
+    family: "openai_compatible",
+    name: "DeepInfra",
+    api_url: "https://api.deepinfra.com/v1/openai",
+    env_var: "DEEPINFRA_TOKEN",
+    models: ["meta-llama/Llama-3.3-70B-Instruct", "Qwen/Qwen2.5-Coder-32B-Instruct"],
+    overrides: [{ match: "*vision*", capabilities: { images: true } }],
+  },
+  {
+    id: "cerebras",
+    label: "Cerebras",
+    family: "openai_compatible",
+    name: "Cerebras",
+    api_url: "https://api.cerebras.ai/v1",
+    models: ["llama-3.3-70b"],
+  },
+  {
+    id: "xai",
+    label: "xAI",
+    family: "openai_compatible",
+    name: "xAI",
+    api_url: "https://api.x.ai/v1",
+    overrides: [{ match: "grok-*vision*", capabilities: { images: true } }],
+  },
+  {
+    id: "gemini-openai",
+    label: "Gemini (OpenAI-compatible API)",
+    family: "openai_compatible",
+    name: "Gemini",
+    api_url: "https://generativelanguage.googleapis.com/v1beta/openai",
+    overrides: [{ match: "*gemini-*", capabilities: { tools: true, images: true } }],
+  },
+  {
+    id: "huggingface",
+    label: "Hugging Face Inference Providers",
+    family: "openai_compatible",
+    name: "HuggingFace",
+    api_url: "https://router.huggingface.co/v1",
+    env_var: "HF_TOKEN",
+  },
+  {
+    id: "ollama",
+    label: "Ollama",
+    family: "ollama",
+    name: "ollama",
+    api_url: "http://localhost:11434",
+  },
+  {
+    id: "lmstudio",
+    label: "LM Studio",
+    family: "lmstudio",
+    name: "lmstudio",
+    api_url: "http://localhost:1234/api/v0",
+  },
+  {
+    id: "vllm",
+    label: "vLLM",
+    family: "openai_compatible",
+    name: "vLLM",
+    api_url: "http://localhost:8000/v1",
+  },
+  {
+    id: "llamacpp",
+    label: "llama.cpp server",
+    family: "openai_compatible",
+    name: "llama.cpp",
+    api_url: "http://localhost:8080/v1",
+  },
+  {
+    id: "litellm",
+    label: "LiteLLM proxy",
+    family: "openai_compatible",
+    name: "LiteLLM",
+    api_url: "http://localhost:4000/v1",
+  },
+  {
+    id: "localai",
+    label: "LocalAI",
+    family: "openai_compatible",
+    name: "LocalAI",
+    api_url: "http://localhost:8080/v1",
+  },
+  {
+    id: "jan",
+    label: "Jan",
+    family: "openai_compatible",
+    name: "Jan",
+    api_url: "http://localhost:1337/v1",
+  },
+];
+
+let providerPresets: ProviderPreset[] | undefined;
+
+// Built-in presets, then the entries of PRESETS_PATH; a local entry with a
+// built-in ID replaces it.
+function listProviderPresets(): ProviderPreset[] {
+  if (providerPresets) return providerPresets;
+  const presets = new Map<string, ProviderPreset>(
+    BUILT_IN_PRESETS.map((preset) => [preset.id, { ...preset, source: "built-in" }]),
+  );
+  if (existsSync(PRESETS_PATH)) {
+    for (const preset of parsePresetsFile(readFileSync(PRESETS_PATH, "utf-8"), PRESETS_PATH)) {
+      presets.set(preset.id, preset);
+    }
+  }
+  providerPresets = [...presets.values()];
+  return providerPresets;
+}
+
+function findProviderPreset(id: string): ProviderPreset | undefined {
+  return listProviderPresets().find((preset) => preset.id === id.toLowerCase());
+}
+
+function isPresetApiUrl(apiUrl: string): boolean {
+  const url = trimTrailingSlashes(apiUrl).toLowerCase();
+  return listProviderPresets().some(
+    (preset) => trimTrailingSlashes(preset.api_url).toLowerCase() === url,
+  );
+}
+
+function parsePresetsFile(presetsText: string, presetsPath: string): ProviderPreset[] {
+  const fail = (message: string): never =>
+    exitWithError(`Invalid presets file ${presetsPath}: ${message}`);
+
+  const raw = jsonc.parse(presetsText);
+  if (!raw || typeof raw !== "object" || typeof raw.presets !== "object" || !raw.presets) {
+    fail('expected a top-level "presets" object');
+  }
+
+  return Object.entries<any>(raw.presets).map(([id, value]): ProviderPreset => {
+    if (!/^[a-z0-9][a-z0-9._-]*$/.test(id)) {
+      fail(`preset ID "${id}" must be lowercase letters, digits, ".", "_" or "-"`);
+    }
+    const family = PROVIDER_FAMILIES[(value?.family ?? "openai_compatible") as ProviderFamilyId];
+    if (!family) {
+      fail(`preset "${id}" has an unknown "family" (${Object.keys(PROVIDER_FAMILIES).join(", ")})`);
+    }
+    const apiUrl = value.api_url ?? family.defaultApiUrl;
+    if (typeof apiUrl !== "string" || !/^https?:\/\//.test(apiUrl)) {
+      fail(`preset "${id}" needs an http(s) "api_url"`);
+    }
+    for (const field of ["label", "name", "env_var"]) {
+      if (value[field] !== undefined && (typeof value[field] !== "string" || !value[field])) {
+        fail(`preset "${id}" has an invalid "${field}"`);
+      }
+    }
+    if (value.request !== undefined && (!value.request || typeof value.request !== "object")) {
+      fail(`preset "${id}" has an invalid "request"`);
+    }
+    if (
+      value.models !== undefined &&
+      (!Array.isArray(value.models) || value.models.some((m: unknown) => typeof m !== "string"))
+    ) {
+      fail(`preset "${id}" needs "models" to be a list of model IDs`);
+    }
+    if (value.overrides !== undefined && !Array.isArray(value.overrides)) {
+      fail(`preset "${id}" needs "overrides" to be a list`);
+    }
+
+    return {
+      id,
+      label: value.label ?? id,
+      family: family.id,
+      name: family.multiInstance ? (value.name ?? value.label ?? id) : family.id,
+      api_url: apiUrl,
+      env_var: value.env_var,
+      request: value.request,
+      models: value.models,
+      overrides: (value.overrides ?? []).map((entry: any) =>
+        parseModelOverrideEntry(entry, `preset "${id}"`, fail),
+      ),
+      source: "local",
+    };
+  });
+}
+
+// Applies the preset's overrides whose pattern matches each model's ID.
+function applyPresetOverrides(
+  family: ProviderFamily,
+  models: FamilyModel[],
+  preset: ProviderPreset | null,
+): FamilyModel[] {
+  const overrides = preset?.overrides ?? [];
+  return models.map((model) => {
+    const entries = overrides.filter((entry) => globToRegExp(entry.match).test(model.name));
+    return entries.length > 0 ? applyManifestOverrides(family, model, entries) : model;
+  });
+}
+
+// Splits the preset's recommended models into those the endpoint serves and
+// those it doesn't.
+function recommendedModelIds(
+  preset: ProviderPreset,
+  fetchedModels: Model[],
+): { served: string[]; missing: string[] } {
+  const fetchedIds = new Set(fetchedModels.map((m) => m.id));
+  const models = preset.models ?? [];
+  return {
+    served: models.filter((id) => fetchedIds.has(id)),
+    missing: models.filter((id) => !fetchedIds.has(id)),
+  };
+}
+
+// The provider's own key, or the one the preset's service usually keeps in
+// its own variable.
+function resolvePresetApiKey(
+  envVarName: string,
+  preset: ProviderPreset | null,
+): { apiKey?: string; from?: string } {
+  const apiKey = resolveApiKey(envVarName);
+  if (apiKey || !preset?.env_var || preset.env_var === envVarName) return { apiKey };
+  const presetKey = resolveApiKey(preset.env_var);
+  return presetKey ? { apiKey: presetKey, from: preset.env_var } : {};
+}
+
+function openAICompatibleRef(name: string): ProviderRef {
+  return { family: "openai_compatible", name };
+}
+
+function providerSettingsPath(ref: ProviderRef): jsonc.JSONPath {
+  return ref.family === "openai_compatible"
+    ? ["language_models", "openai_compatible", ref.name]
+    : ["language_models", ref.family];
+}
+
+function providerEnvVarName(ref: ProviderRef): string {
+  return PROVIDER_FAMILIES[ref.family].envVarName ?? deriveEnvVarName(ref.name);
+}
+
+function providerLabel(ref: ProviderRef): string {
+  return ref.family === "openai_compatible"
+    ? ref.name
+    : `${PROVIDER_FAMILIES[ref.family].label} (${ref.family})`;
+}
+
+// Every configured provider block across families, openai_compatible first.
+function listConfiguredProviders(settings: any): { ref: ProviderRef; provider: any }[] {
+  const languageModels = settings?.language_models || {};
+  const result: { ref: ProviderRef; provider: any }[] = [];
+
+  for (const [name, provider] of Object.entries<any>(
+    languageModels.openai_compatible || {},
+  )) {
+    result.push({ ref: openAICompatibleRef(name), provider });
+  }
+  for (const family of Object.values(PROVIDER_FAMILIES)) {
+    if (family.multiInstance) continue;
+    const block = languageModels[family.id];
+    if (block && typeof block === "object") {
+      result.push({ ref: { family: family.id, name: family.id }, provider: block });
+    }
+  }
+  return result;
+}
+
+// Named openai_compatible providers win over a family block with the same ID.
+function resolveProviderRef(settings: any, key: string): ProviderRef | null {
+  const configured = listConfiguredProviders(settings);
+  const named = configured.find(
+    (c) => c.ref.family === "openai_compatible" && c.ref.name === key,
+  );
+  if (named) return named.ref;
+  const block = configured.find(
+    (c) => c.ref.family !== "openai_compatible" && c.ref.family === key.toLowerCase(),
+  );
+  return block ? block.ref : null;
+}
+
+function getConfiguredProvider(settings: any, ref: ProviderRef): any {
+  let node = settings;
+  for (const segment of providerSettingsPath(ref)) node = node?.[segment];
+  return node;
+}
+
+// Family blocks may omit api_url and rely on Zed's default endpoint.
+function providerApiUrl(ref: ProviderRef, provider: any): string {
+  const family = PROVIDER_FAMILIES[ref.family];
+  return family.normalizeApiUrl(provider?.api_url ?? family.defaultApiUrl ?? "");
+}
+
+function toFamilyModel(family: ProviderFamily, model: AvailableModel): FamilyModel {
+  const result: FamilyModel = {
+    name: model.name,
+    display_name: model.display_name,
+    max_tokens: model.max_tokens,
+  };
+  for (const field of family.outputTokenFields) {
+    if (model[field] !== undefined) result[field] = model[field];
+  }
+  for (const key of Object.keys(family.capabilityPaths) as (keyof ModelCapabilities)[]) {
+    writeFamilyCapability(family, result, key, model.capabilities[key]);
+  }
+  return result;
+}
+
+function writeFamilyCapability(
+  family: ProviderFamily,
+  model: FamilyModel,
+  key: keyof ModelCapabilities,
+  value: boolean,
+) {
+  const path = family.capabilityPaths[key];
+  if (!path) return;
+  let node: any = model;
+  for (const segment of path.slice(0, -1)) node = node[segment] ??= {};
+  node[path[path.length - 1]] = value;
 }
 
-const ZED_SETTINGS_PATH = join(homedir(), ".config/zed/settings.json");
+function readFamilyCapability(
+  family: ProviderFamily,
+  model: FamilyModel,
+  key: keyof ModelCapabilities,
+): boolean | undefined {
+  const path = family.capabilityPaths[key];
+  if (!path) return undefined;
+  let node: any = model;
+  for (const segment of path) node = node?.[segment];
+  return toBool(node);
+}
+
+// Azure OpenAI deployment URLs select the API version with a query parameter
+// and have no /v1 segment, e.g.
+// https://res.openai.azure.com/openai/deployments/gpt-4o?api-version=2024-10-21
+function isAzureDeploymentUrl(apiUrl: string): boolean {
+  return /\/openai\/deployments\/[^/?#]+/.test(apiUrl) || /[?&]api-version=/.test(apiUrl);
+}
+
+// Splits off the query string so path edits never land inside it.
+function splitQuery(apiUrl: string): [string, string] {
+  const index = apiUrl.indexOf("?");
+  return index === -1 ? [apiUrl, ""] : [apiUrl.slice(0, index), apiUrl.slice(index)];
+}
 
 function normalizeApiUrl(apiUrl: string): string {
-  const trimmed = apiUrl.replace(/\/+$/, "");
-  return trimmed.endsWith("/v1") ? trimmed : `${trimmed}/v1`;
+  const [base, query] = splitQuery(apiUrl);
+  const trimmed = trimTrailingSlashes(base);
+  if (isAzureDeploymentUrl(apiUrl) || isPresetApiUrl(trimmed)) return `${trimmed}${query}`;
+  return `${trimmed.endsWith("/v1") ? trimmed : `${trimmed}/v1`}${query}`;
 }
 
 function getModelsEndpoint(apiUrl: string): string {
-  const normalized = normalizeApiUrl(apiUrl);
-  return `${normalized}/models`;
+  const [base, query] = splitQuery(normalizeApiUrl(apiUrl));
+  // Azure lists the resource's models next to the deployments, not under one
+  if (isAzureDeploymentUrl(apiUrl)) {
+    return `${base.replace(/\/deployments\/[^/]+$/, "")}/models${query}`;
+  }
+  return `${base}/models${query}`;
+}
+
+function getChatCompletionsEndpoint(apiUrl: string): string {
+  const [base, query] = splitQuery(normalizeApiUrl(apiUrl));
+  return `${base}/chat/completions${query}`;
 }
 
 function deriveEnvVarName(providerName: string): string {
@@ -339,33 +1558,294 @@ function bestEffortDisplayName(modelId: string, providerModel: any): string {
   return deriveDisplayName(modelId);
 }
 
-async function fetchModels(
-  endpoint: string,
-  apiKey?: string,
-  providerName?: string,
-): Promise<Model[]> {
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-  };
+const DISPLAY_NAME_PLACEHOLDERS = ["id", "suffix", "vendor", "provider", "name"];
+
+const DISPLAY_NAME_PRESETS: { template: string; label: string }[] = [
+  { template: "{suffix}", label: "Strip vendor prefix" },
+  { template: "{suffix} ({provider})", label: "Append provider name" },
+  { template: "{id}", label: "Use the full model ID" },
+];
 
-  if (apiKey) {
-    headers["Authorization"] = `Bearer ${apiKey}`;
+function validateDisplayNameTemplate(template: string): string | undefined {
+  if (!template.trim()) return "Template is required";
+  for (const [, placeholder] of template.matchAll(/\{([^}]*)\}/g)) {
+    if (!DISPLAY_NAME_PLACEHOLDERS.includes(placeholder)) {
+      return `Unknown placeholder {${placeholder}} (use ${DISPLAY_NAME_PLACEHOLDERS.map((p) => `{${p}}`).join(", ")})`;
+    }
   }
+  return undefined;
+}
 
-  const s = spinner();
-  s.start(`Fetching models from ${endpoint}`);
+// {vendor} is everything before the last "/" of the ID, and empty when there is none.
+function applyDisplayNameTemplate(
+  template: string,
+  model: FamilyModel,
+  ref: ProviderRef,
+): string {
+  const slash = model.name.lastIndexOf("/");
+  const values: Record<string, string> = {
+    id: model.name,
+    suffix: deriveDisplayName(model.name),
+    vendor: slash === -1 ? "" : model.name.slice(0, slash),
+    provider: ref.family === "openai_compatible" ? ref.name : PROVIDER_FAMILIES[ref.family].label,
+    name: model.display_name ?? model.name,
+  };
+  return template.replace(/\{([^}]*)\}/g, (_, placeholder) => values[placeholder]).trim();
+}
 
-  try {
-    const response = await fetch(endpoint, { headers });
+// Keys the editor has dedicated prompts for; everything else is a custom field.
+function managedModelKeys(family: ProviderFamily): Set<string> {
+  return new Set([
+    "name",
+    "display_name",
+    "max_tokens",
+    ...family.outputTokenFields,
+    ...Object.values(family.capabilityPaths).map((path) => path![0]),
+  ]);
+}
 
-    if (!response.ok) {
-      s.stop(`Failed: HTTP ${response.status}`);
+function customModelFields(family: ProviderFamily, model: FamilyModel): Record<string, any> {
+  const managed = managedModelKeys(family);
+  return Object.fromEntries(Object.entries(model).filter(([key]) => !managed.has(key)));
+}
 
-      if ((response.status === 401 || response.status === 403) && !apiKey) {
-        // Offer retry with API key
-        const shouldRetry = await confirm({
-          message: "API key required. Would you like to provide one now?",
-          initialValue: true,
+// Writes only the top-level keys that differ, so comments next to untouched
+// fields survive.
+function updateModelInSettingsText(
+  settingsText: string,
+  ref: ProviderRef,
+  index: number,
+  before: FamilyModel,
+  after: FamilyModel,
+): string {
+  let updatedText = settingsText;
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[key]) === JSON.stringify(after[key])) continue;
+    updatedText = modifySettingsText(
+      updatedText,
+      [...providerSettingsPath(ref), "available_models", index, key],
+      after[key],
+    );
+  }
+  return updatedText;
+}
+
+// Entries are keyed by URL (query parameters included), API key and request
+// headers so providers that list different models per key or per configured
+// header never share a cached response. Only the hash is stored, never the key.
+function cacheEntryPath(
+  url: string,
+  apiKey?: string,
+  headers: Record<string, string> = {},
+  requestBody?: unknown,
+): string {
+  const headerLines = Object.entries(headers)
+    .filter(([name]) => name.toLowerCase() !== "content-type")
+    .map(([name, value]) => `${name.toLowerCase()}: ${value}`)
+    .sort();
+  const bodyLines = requestBody === undefined ? [] : [JSON.stringify(requestBody)];
+  const hash = createHash("sha256")
+    .update([url, apiKey ?? "", ...headerLines, ...bodyLines].join("\n"))
+    .digest("hex");
+  return join(CACHE_DIR, "responses", `${hash.slice(0, 32)}.json`);
+}
+
+function readCacheEntry(path: string): CacheEntry | null {
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as CacheEntry;
+  } catch {
+    // Treat a corrupt entry as a miss; the next fetch overwrites it.
+    return null;
+  }
+}
+
+function writeCacheEntry(path: string, entry: CacheEntry) {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(entry), { encoding: "utf-8", mode: 0o600 });
+}
+
+function formatCacheAge(entry: CacheEntry): string {
+  const minutes = Math.round((Date.now() - Date.parse(entry.fetched_at)) / 60000);
+  if (minutes < 60) return `${minutes}m old`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h old`;
+  return `${Math.round(minutes / (24 * 60))}d old`;
+}
+
+let extraCaCertificates: string[] | null = null;
+
+function trustedCertificates(): string[] | undefined {
+  if (!runtimeOptions.caFile) return undefined;
+  extraCaCertificates ??= [...rootCertificates, readFileSync(runtimeOptions.caFile, "utf-8")];
+  return extraCaCertificates;
+}
+
+// Timeouts and dropped connections are worth another attempt; certificate
+// and DNS errors are not.
+function isTransientRequestError(error: unknown): boolean {
+  if (error instanceof Error && error.name === "TimeoutError") return true;
+  const code = (error as { code?: string } | undefined)?.code;
+  return ["ECONNREFUSED", "ECONNRESET", "ETIMEDOUT", "EPIPE", "EAI_AGAIN"].includes(code ?? "");
+}
+
+function retryDelayMs(attempt: number, response?: Response): number {
+  const retryAfter = Number(response?.headers.get("retry-after"));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) return Math.min(retryAfter, 30) * 1000;
+  return 500 * 2 ** attempt + Math.floor(Math.random() * 250);
+}
+
+// Every request goes through here so the proxy, CA file, TLS opt-out, timeout
+// and retry settings apply uniformly. Only GETs are retried.
+async function networkFetch(
+  url: string,
+  init: RequestInit = {},
+  options: NetworkOptions = {},
+): Promise<Response> {
+  const timeoutMs = options.timeoutMs ?? runtimeOptions.requestTimeoutSeconds * 1000;
+  const retries =
+    !init.method || init.method === "GET" ? (options.retries ?? runtimeOptions.retries) : 0;
+  const ca = trustedCertificates();
+  const fetchInit = {
+    ...init,
+    ...(runtimeOptions.proxy ? { proxy: runtimeOptions.proxy } : {}),
+    ...(ca || options.insecure
+      ? { tls: { ...(ca ? { ca } : {}), ...(options.insecure ? { rejectUnauthorized: false } : {}) } }
+      : {}),
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response | undefined;
+    let failure: unknown;
+    try {
+      response = await fetch(url, { ...fetchInit, signal: AbortSignal.timeout(timeoutMs) });
+      if (![429, 502, 503, 504].includes(response.status)) return response;
+    } catch (error) {
+      if (!isTransientRequestError(error)) throw error;
+      failure = error;
+    }
+    if (attempt >= retries) {
+      if (response) return response;
+      throw failure;
+    }
+
+    const delay = retryDelayMs(attempt, response);
+    const reason = response
+      ? `HTTP ${response.status}`
+      : describeRequestError(failure, timeoutMs);
+    console.error(
+      `⚠️  ${new URL(url).host}: ${reason}, retrying in ${(delay / 1000).toFixed(1)}s (${attempt + 1}/${retries})`,
+    );
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+// GETs a JSON document through the on-disk cache (or POSTs requestBody, which
+// is then part of the cache key). Fresh entries are served without a request,
+// stale ones are revalidated with ETag/Last-Modified, and a network error falls
+// back to a stale entry. Failed responses are returned unread (and never
+// cached) so callers can handle them.
+async function fetchJsonWithCache(
+  url: string,
+  headers: Record<string, string>,
+  ttlSeconds: number,
+  apiKey?: string,
+  network: NetworkOptions = {},
+  requestBody?: unknown,
+): Promise<{ body?: any; response?: Response; source: "network" | "cache"; entry?: CacheEntry }> {
+  const path = cacheEntryPath(url, apiKey, headers, requestBody);
+  const entry = readCacheEntry(path);
+
+  if (runtimeOptions.offline) {
+    if (!entry) {
+      throw new Error(`No cached response for ${redactApiKey(url, apiKey)} (running with --offline)`);
+    }
+    return { body: entry.body, source: "cache", entry };
+  }
+
+  const age = entry ? (Date.now() - Date.parse(entry.fetched_at)) / 1000 : Infinity;
+  if (entry && !runtimeOptions.refresh && age < ttlSeconds) {
+    return { body: entry.body, source: "cache", entry };
+  }
+
+  const conditionalHeaders: Record<string, string> = {};
+  if (entry?.etag) conditionalHeaders["If-None-Match"] = entry.etag;
+  if (entry?.last_modified) conditionalHeaders["If-Modified-Since"] = entry.last_modified;
+
+  let response: Response;
+  try {
+    const init: RequestInit = { headers: { ...headers, ...conditionalHeaders } };
+    if (requestBody !== undefined) {
+      Object.assign(init, { method: "POST", body: JSON.stringify(requestBody) });
+    }
+    response = await networkFetch(url, init, network);
+  } catch (error) {
+    if (!entry) throw error;
+    console.error(
+      `⚠️  ${redactApiKey(url, apiKey)} is unreachable, using the cached copy (${formatCacheAge(entry)})`,
+    );
+    return { body: entry.body, source: "cache", entry };
+  }
+
+  if (response.status === 304 && entry) {
+    const revalidated = { ...entry, fetched_at: new Date().toISOString() };
+    writeCacheEntry(path, revalidated);
+    return { body: entry.body, source: "network", entry: revalidated };
+  }
+  if (!response.ok) return { response, source: "network" };
+
+  const body = await response.json();
+  const fresh: CacheEntry = {
+    url: redactApiKey(url, apiKey),
+    fetched_at: new Date().toISOString(),
+    etag: response.headers.get("etag") ?? undefined,
+    last_modified: response.headers.get("last-modified") ?? undefined,
+    body,
+  };
+  writeCacheEntry(path, fresh);
+  return { body, source: "network", entry: fresh };
+}
+
+async function fetchModels(
+  endpoint: string,
+  apiKey?: string,
+  ref?: ProviderRef,
+): Promise<Model[]> {
+  const family = PROVIDER_FAMILIES[ref?.family ?? "openai_compatible"];
+  const request = providerRequest(ref, endpoint, apiKey);
+
+  const s = runtimeOptions.interactive
+    ? spinner()
+    : { start: (_msg: string) => {}, stop: (_msg: string) => {} };
+  s.start(`Fetching models from ${endpoint}`);
+
+  try {
+    const { body, response, source, entry } = await fetchJsonWithCache(
+      request.url,
+      request.headers,
+      MODELS_CACHE_TTL_SECONDS,
+      apiKey,
+      { insecure: request.insecure },
+    );
+
+    if (response) {
+      s.stop(`Failed: HTTP ${response.status}`);
+
+      if (
+        (response.status === 401 || response.status === 403) &&
+        !apiKey &&
+        !runtimeOptions.interactive
+      ) {
+        const hint = ref
+          ? ` Set ${providerEnvVarName(ref)} or run "zed-api keys set ${ref.name}", then retry.`
+          : "";
+        exitWithError(`API key required (HTTP ${response.status}).${hint}`);
+      }
+
+      if ((response.status === 401 || response.status === 403) && !apiKey) {
+        // Offer retry with API key
+        const shouldRetry = await confirm({
+          message: "API key required. Would you like to provide one now?",
+          initialValue: true,
         });
 
         if (typeof shouldRetry === "symbol" || !shouldRetry) {
@@ -373,9 +1853,8 @@ async function fetchModels(
           process.exit(1);
         }
 
-        const apiKeyInput = await text({
+        const apiKeyInput = await password({
           message: "Enter API key:",
-          placeholder: "sk-...",
           validate: (value) => {
             if (!value) return "API key is required to continue";
             if (/\s/.test(value)) return "API key should not contain spaces";
@@ -389,26 +1868,16 @@ async function fetchModels(
         const newApiKey = apiKeyInput as string;
 
         // Load into current process
-        if (providerName) {
-          const envVarName = deriveEnvVarName(providerName);
+        if (ref) {
+          const envVarName = providerEnvVarName(ref);
           process.env[envVarName] = newApiKey;
-
-          // Show copy-paste command
-          const shell = process.env.SHELL || "";
-          const rcFile = shell.includes("zsh") ? "~/.zshrc" : "~/.bashrc";
-
-          note(
-            `To persist this key across sessions, add to ${rcFile}:\n\n` +
-              `  export ${envVarName}="${newApiKey}"\n\n` +
-              `Then run: source ${rcFile}`,
-            "💾 Save API Key"
-          );
+          await offerToStoreApiKey(envVarName, newApiKey);
         }
 
         console.log(`✅ API key loaded for this session\n`);
 
         // Retry fetch with new key
-        return fetchModels(endpoint, newApiKey, providerName);
+        return fetchModels(endpoint, newApiKey, ref);
       }
 
       if ((response.status === 401 || response.status === 403) && apiKey) {
@@ -424,11 +1893,14 @@ async function fetchModels(
       process.exit(1);
     }
 
-    const data: ModelsResponse = await response.json();
-    s.stop("Models fetched successfully");
+    const data: ModelsResponse = body;
+    s.stop(
+      source === "cache"
+        ? `Models loaded from cache (${formatCacheAge(entry!)}, --refresh to update)`
+        : "Models fetched successfully",
+    );
 
-    // Handle both OpenAI-style {data: [...]} and direct {models: [...]}
-    const models = data.data || data.models || [];
+    const models = family.parseModels(data);
 
     if (!Array.isArray(models) || models.length === 0) {
       console.error("⚠️  No models found in response");
@@ -436,886 +1908,6900 @@ async function fetchModels(
       process.exit(1);
     }
 
-    return models.sort((a, b) => a.id.localeCompare(b.id));
+    return (await applyModelMetadataAdapters(models, endpoint, ref, apiKey)).sort((a, b) =>
+      a.id.localeCompare(b.id),
+    );
   } catch (error) {
     s.stop("Failed to fetch models");
-    console.error(`Error: ${error}`);
+    console.error(`Error: ${describeRequestError(error, runtimeOptions.requestTimeoutSeconds * 1000)}`);
     process.exit(1);
   }
 }
 
-function readZedSettings(): { text: string; data: any } {
-  if (!existsSync(ZED_SETTINGS_PATH)) {
-    console.error(`⚠️  Zed settings not found at: ${ZED_SETTINGS_PATH}`);
-    process.exit(1);
-  }
+function exitWithError(message: string, exitCode = 1): never {
+  console.error(`\n⚠️  ${message}\n`);
+  process.exit(exitCode);
+}
+
+function xdgConfigHome(): string {
+  return process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+}
 
-  const text = readFileSync(ZED_SETTINGS_PATH, "utf-8");
-  const data = jsonc.parse(text);
-  return { text, data };
+// Nearest .zed/settings.json from the working directory up to the repository
+// (or worktree) root. Without one, the file is created at that root, or in the
+// working directory outside a repository.
+function findProjectSettingsPath(): string {
+  let dir = process.cwd();
+  while (true) {
+    const candidate = join(dir, ".zed", "settings.json");
+    if (existsSync(candidate)) return candidate;
+    if (existsSync(join(dir, ".git"))) return candidate;
+    const parent = dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return join(process.cwd(), ".zed", "settings.json");
 }
 
-function writeZedSettings(text: string) {
-  writeFileSync(ZED_SETTINGS_PATH, text, "utf-8");
+// Every settings file zed-api knows about, existing or not.
+function listSettingsLocations(): (SettingsLocation & { exists: boolean })[] {
+  const locations = ZED_CONFIG_DIRS.map(({ label, dir }) => ({
+    label,
+    path: join(dir, "settings.json"),
+  }));
+  locations.push({ label: "Project", path: findProjectSettingsPath() });
+  return locations.map((location) => ({ ...location, exists: existsSync(location.path) }));
 }
 
-async function addProvider() {
-  // Prompt for provider name
-  const providerName = await text({
-    message: "Provider name:",
-    placeholder: "e.g., OpenRouter, Ollama, LocalAI",
-    validate: (value) => {
-      if (!value) return "Provider name is required";
-    },
-  });
+// The first existing user settings file; Zed's own path when none exists yet.
+function defaultSettingsPath(): string {
+  const existing = listSettingsLocations().find(
+    (location) => location.exists && location.label !== "Project",
+  );
+  return existing?.path ?? join(ZED_CONFIG_DIRS[0].dir, "settings.json");
+}
 
-  if (typeof providerName === "symbol") {
-    return;
+// Directories (e.g. a worktree's .zed) resolve to the settings.json inside them.
+function normalizeSettingsPath(path: string): string {
+  const absolute = resolve(path.replace(/^~(?=\/|$)/, homedir()));
+  if (existsSync(absolute) && statSync(absolute).isDirectory()) {
+    return join(absolute, "settings.json");
   }
+  return absolute;
+}
 
-  // Check if provider already exists
-  const { data: settings } = readZedSettings();
-  const existingProviders = settings?.language_models?.openai_compatible || {};
+// Asks which file to edit when several settings files exist.
+async function selectSettingsPath(): Promise<boolean> {
+  const existing = listSettingsLocations().filter((location) => location.exists);
+  if (existing.length < 2) return true;
+
+  const path = await select({
+    message: "Which settings file should be edited?",
+    options: existing.map((location) => ({
+      value: location.path,
+      label: location.label,
+      hint: tildify(location.path),
+    })),
+    initialValue: runtimeOptions.settingsPath,
+  });
+  if (typeof path === "symbol") return false;
+  runtimeOptions.settingsPath = path;
+  return true;
+}
 
-  if (existingProviders[providerName as string]) {
-    console.log(
-      `\n⚠️  Provider "${providerName}" already exists. Use "Modify provider" to update it.\n`,
+// A missing file reads as empty settings; the first write creates it.
+function readSettingsText(): string {
+  if (!existsSync(runtimeOptions.settingsPath)) return EMPTY_SETTINGS_TEXT;
+  return readFileSync(runtimeOptions.settingsPath, "utf-8");
+}
+
+// Refuses a file with syntax errors: a misread settings.json would be
+// written back without the parts jsonc-parser skipped.
+function readZedSettings(): { text: string; data: any } {
+  const text = readSettingsText();
+  const syntaxErrors = settingsSyntaxErrors(text);
+  if (syntaxErrors.length > 0) {
+    exitWithError(
+      `${tildify(runtimeOptions.settingsPath)} has syntax errors:\n` +
+        syntaxErrors.map((issue) => `   ${formatSettingsIssue(text, issue)}`).join("\n") +
+        `\n\n   Fix them, or restore a snapshot (zed-api history), before changing settings`,
     );
-    return;
   }
+  return { text, data: jsonc.parse(text, [], { allowTrailingComma: true }) };
+}
 
-  // Prompt for API URL
-  const apiUrl = await text({
-    message: "API URL:",
-    placeholder: "e.g., https://api.example.com or http://localhost:11434",
-    validate: (value) => {
-      if (!value) return "API URL is required";
-      if (!value.startsWith("http://") && !value.startsWith("https://")) {
-        return "URL must start with http:// or https://";
-      }
-    },
-  });
+// Write through symlinks (e.g. dotfile managers) instead of replacing them.
+function settingsTargetPath(): string {
+  return existsSync(runtimeOptions.settingsPath)
+    ? realpathSync(runtimeOptions.settingsPath)
+    : runtimeOptions.settingsPath;
+}
 
-  if (typeof apiUrl === "symbol") {
-    return;
+function writeZedSettings(
+  text: string,
+  snapshotOptions: { undoOf?: string } = {},
+) {
+  const targetPath = settingsTargetPath();
+
+  const created = !existsSync(targetPath);
+  if (created) {
+    mkdirSync(dirname(targetPath), { recursive: true });
+  } else {
+    const previousText = readFileSync(targetPath, "utf-8");
+    if (previousText === text) return;
+    saveSettingsSnapshot(previousText, text, snapshotOptions.undoOf);
   }
 
-  const normalizedApiUrl = normalizeApiUrl(apiUrl as string);
-  const modelsEndpoint = getModelsEndpoint(apiUrl as string);
-  const envVarName = deriveEnvVarName(providerName as string);
-  let apiKey = process.env[envVarName];
+  // Atomic replace: a crash mid-write never leaves a truncated settings.json.
+  const tempPath = join(
+    dirname(targetPath),
+    `.${basename(targetPath)}.zed-api-${process.pid}.tmp`,
+  );
+  writeFileSync(tempPath, text, "utf-8");
+  if (existsSync(targetPath)) {
+    chmodSync(tempPath, statSync(targetPath).mode);
+  }
+  renameSync(tempPath, targetPath);
+  if (created) console.log(`📄 Created ${tildify(targetPath)}`);
+}
 
-  if (!apiKey) {
-    const apiKeyInput = await text({
-      message: `API key for ${providerName} (optional, press Enter to skip):`,
-      placeholder: "sk-...",
-      validate: (value) => {
-        // Allow empty (optional)
-        if (!value) return undefined;
-        // Basic validation: no whitespace
-        if (/\s/.test(value)) return "API key should not contain spaces";
-      },
-    });
+function settingsLockPath(): string {
+  const targetPath = settingsTargetPath();
+  return join(dirname(targetPath), `.${basename(targetPath)}.zed-api.lock`);
+}
 
-    if (typeof apiKeyInput !== "symbol" && apiKeyInput) {
-      apiKey = apiKeyInput as string;
-      // Load into current process for immediate use
-      process.env[envVarName] = apiKey;
+// A lock whose process is gone was left behind by a crash. The age only
+// decides for a lock without a PID (e.g. one cut short while being created).
+// Returns the stale lock's mtime and content, which identify it when claimed.
+function staleSettingsLock(lockPath: string): string | null {
+  let content: string;
+  let mtimeMs: number;
+  try {
+    content = readFileSync(lockPath, "utf-8");
+    mtimeMs = statSync(lockPath).mtimeMs;
+  } catch {
+    return null;
+  }
+  const stamp = `${mtimeMs}\n${content}`;
+  const pid = parseInt(content, 10);
+  if (pid > 0) {
+    try {
+      process.kill(pid, 0);
+      return null;
+    } catch (error: any) {
+      return error?.code === "ESRCH" ? stamp : null;
+    }
+  }
+  return Date.now() - mtimeMs > SETTINGS_LOCK_STALE_MS ? stamp : null;
+}
+
+// Two processes can find the same lock stale. Renaming it away is atomic, so
+// only one of them gets it, and it is only removed if it is still the lock
+// that was found stale: a fresh lock that replaced it in the meantime is put
+// back (link fails rather than replace a lock taken since).
+function claimStaleSettingsLock(lockPath: string, stamp: string) {
+  const claimedPath = `${lockPath}.${process.pid}.stale`;
+  try {
+    renameSync(lockPath, claimedPath);
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return;
+    throw error;
+  }
+  try {
+    const claimed = `${statSync(claimedPath).mtimeMs}\n${readFileSync(claimedPath, "utf-8")}`;
+    if (claimed !== stamp) linkSync(claimedPath, lockPath);
+  } catch {
+    // Another process holds the lock now
+  } finally {
+    rmSync(claimedPath, { force: true });
+  }
+}
 
-      // Show copy-paste command
-      const shell = process.env.SHELL || "";
-      const rcFile = shell.includes("zsh") ? "~/.zshrc" : "~/.bashrc";
+// Advisory lock next to settings.json, held while the file is re-read and
+// written, so two running instances can't interleave their writes.
+async function withSettingsLock<T>(action: () => Promise<T>): Promise<T> {
+  const lockPath = settingsLockPath();
+  const deadline = Date.now() + SETTINGS_LOCK_TIMEOUT_MS;
+  // The PID comes first for staleSettingsLock; the UUID tells this lock from
+  // one a later process with the same PID takes.
+  const token = `${process.pid}\n${randomUUID()}\n`;
+  mkdirSync(dirname(lockPath), { recursive: true });
 
-      note(
-        `Your API key is loaded for this session.\n\n` +
-        `To persist it across sessions, add this to ${rcFile}:\n\n` +
-        `  export ${envVarName}="${apiKey}"\n\n` +
-        `Then run: source ${rcFile}`,
-        "💾 Save API Key"
+  while (true) {
+    try {
+      writeFileSync(lockPath, token, { flag: "wx" });
+      break;
+    } catch (error: any) {
+      if (error?.code !== "EEXIST") throw error;
+    }
+    const stale = staleSettingsLock(lockPath);
+    if (stale) {
+      claimStaleSettingsLock(lockPath, stale);
+      continue;
+    }
+    if (Date.now() > deadline) {
+      exitWithError(
+        `${tildify(runtimeOptions.settingsPath)} is being written by another zed-api process` +
+          ` (lock: ${tildify(lockPath)}); delete the lock file if no other instance is running`,
       );
     }
+    await new Promise((resolve) => setTimeout(resolve, 100));
   }
 
-  console.log(`\n📝 Provider: ${providerName}`);
-  console.log(`🔗 API URL: ${normalizedApiUrl}`);
-  console.log(`🔑 API Key: ${apiKey ? "✓ Set" : "✗ Not set"}\n`);
+  // Also released when an error ends the process mid-write; a lock that is
+  // no longer this process's is left alone.
+  const release = () => {
+    try {
+      if (readFileSync(lockPath, "utf-8") === token) rmSync(lockPath, { force: true });
+    } catch {
+      // Already gone
+    }
+  };
+  process.once("exit", release);
+  try {
+    return await action();
+  } finally {
+    process.off("exit", release);
+    release();
+  }
+}
 
-  // Fetch models
-  const models = await fetchModels(modelsEndpoint, apiKey, providerName as string);
-  console.log(`\n✓ Found ${models.length} models\n`);
+function formatSettingsDiff(oldText: string, newText: string): string {
+  const patch = createTwoFilesPatch(
+    runtimeOptions.settingsPath,
+    runtimeOptions.settingsPath,
+    oldText,
+    newText,
+    "current",
+    "proposed",
+    { context: 3 },
+  );
 
-  // Select models
-  const selectionMode = await select({
-    message: "How do you want to select models?",
-    options: [
-      {
-        value: "interactive",
-        label: "Interactive selection (pick specific models)",
-      },
-      { value: "filter", label: "Filter then select (search by keyword)" },
-      { value: "all", label: "Add all models" },
-    ],
-  });
+  return patch
+    .split("\n")
+    .filter((line) => !line.startsWith("Index:") && !line.startsWith("====="))
+    .map((line) => {
+      if (line.startsWith("---") || line.startsWith("+++")) return pc.bold(line);
+      if (line.startsWith("@@")) return pc.cyan(line);
+      if (line.startsWith("+")) return pc.green(line);
+      if (line.startsWith("-")) return pc.red(line);
+      return line;
+    })
+    .join("\n");
+}
 
-  if (typeof selectionMode === "symbol") {
-    return;
+// Single gate for every settings.json change: honors --dry-run, and in the
+// interactive menu lets the user preview the exact text diff before writing.
+// Returns true when the new text was written.
+async function confirmAndWriteSettings(
+  oldText: string,
+  newText: string,
+  options: {
+    message?: string;
+    initialValue?: "write" | "cancel";
+    undoOf?: string;
+    snapshot?: boolean;
+  } = {},
+): Promise<boolean> {
+  if (oldText === newText) {
+    console.log("\n⚠️  No changes to settings.json\n");
+    return false;
   }
 
-  let selectedModelIds: string[];
-  let modelsToShow = models;
+  // Problems the file already had don't block the write; new ones do. Snapshots
+  // are text that was on disk before, so putting one back is always allowed.
+  const introduced = options.snapshot ? [] : introducedSettingsErrors(oldText, newText);
+  if (introduced.length > 0) {
+    console.error("\n❌ Not writing settings.json: the change would introduce these problems:\n");
+    introduced.forEach((issue) => console.error(`   ${formatSettingsIssue(newText, issue)}`));
+    console.error("");
+    return false;
+  }
 
-  // Apply filter if requested
-  if (selectionMode === "filter") {
-    const filterText = await text({
-      message: "Filter models (case-insensitive, partial match):",
-      placeholder: "e.g., gpt, claude, llama",
-      validate: (value) => {
-        if (!value) return "Filter text is required";
-      },
-    });
+  if (runtimeOptions.dryRun) {
+    console.log(`\n${formatSettingsDiff(oldText, newText)}`);
+    console.log("\n🔍 Dry run: settings.json was not modified\n");
+    return false;
+  }
 
-    if (typeof filterText === "symbol") {
-      return;
+  if (runtimeOptions.interactive) {
+    while (true) {
+      const choice = await select({
+        message: options.message ?? "Apply these changes to settings.json?",
+        initialValue: options.initialValue ?? "write",
+        options: [
+          { value: "write", label: "Yes, write settings.json" },
+          { value: "preview", label: "Preview diff" },
+          { value: "cancel", label: "No, cancel" },
+        ],
+      });
+
+      if (typeof choice === "symbol" || choice === "cancel") {
+        console.log("\n❌ Changes cancelled\n");
+        return false;
+      }
+      if (choice === "write") break;
+
+      console.log(`\n${formatSettingsDiff(oldText, newText)}\n`);
     }
+  }
 
-    const filter = (filterText as string).toLowerCase();
-    modelsToShow = models.filter((m) => m.id.toLowerCase().includes(filter));
+  // The lock is held only while the file is re-read and written. A conflict is
+  // resolved without it, then the file is read and compared again.
+  let baseText = oldText;
+  while (true) {
+    const conflict = await withSettingsLock(async () => {
+      // Zed or another editor may have saved the file while this edit was being
+      // prepared; snapshots replace the whole file, so they are written as is.
+      const currentText = readSettingsText();
+      let text = newText;
+      if (currentText !== baseText && !options.snapshot) {
+        const rebase = rebaseSettingsEdit(baseText, newText, currentText);
+        const introduced =
+          rebase.conflicts.length > 0 ? [] : introducedSettingsErrors(currentText, rebase.text);
+        if (rebase.conflicts.length > 0 || introduced.length > 0) {
+          return { currentText, rebase, introduced };
+        }
+        console.log("🔀 settings.json changed on disk; applied this edit on top of those changes");
+        text = rebase.text;
+      }
+      writeZedSettings(text, { undoOf: options.undoOf });
+      return null;
+    });
+    if (!conflict) return true;
 
-    if (modelsToShow.length === 0) {
-      console.log(`\n⚠️  No models match filter "${filterText}"\n`);
-      return;
+    const { currentText, rebase, introduced } = conflict;
+    if (!(await confirmSettingsOverwrite(newText, currentText, rebase, introduced))) {
+      return false;
     }
+    // Writing this version over the file as it was just shown
+    baseText = currentText;
+  }
+}
 
-    console.log(`\n✓ Found ${modelsToShow.length} models matching "${filterText}"\n`);
+// Reports the changes that overlap with this edit; in the interactive menu the
+// user can still write their version.
+async function confirmSettingsOverwrite(
+  newText: string,
+  currentText: string,
+  { text, conflicts }: SettingsRebase,
+  introduced: SettingsIssue[],
+): Promise<boolean> {
+  console.error("\n⚠️  settings.json changed on disk since it was read, and overlaps with this edit:\n");
+  conflicts.forEach((path) =>
+    console.error(`   ${path.length > 0 ? formatJsonPath(path) : "(the whole file)"}`),
+  );
+  introduced.forEach((issue) => console.error(`   ${formatSettingsIssue(text, issue)}`));
+  if (!runtimeOptions.interactive) {
+    exitWithError("Nothing was written; run the command again");
   }
+  console.error("");
 
-  if (selectionMode === "all") {
-    selectedModelIds = models.map((m) => m.id);
-    console.log(`\n✓ Selected all ${selectedModelIds.length} models`);
-  } else {
-    const choices = modelsToShow.map((m) => ({
-      value: m.id,
-      label: m.id,
-      hint: deriveDisplayName(m.id),
-    }));
-
-    const selected = await multiselect({
-      message: "Select models to add (use space to toggle, enter to confirm):",
-      options: choices,
-      required: true,
+  while (true) {
+    const choice = await select({
+      message: "How should settings.json be written?",
+      initialValue: "cancel",
+      options: [
+        { value: "cancel", label: "Cancel", hint: "keep the file as it is on disk" },
+        { value: "overwrite", label: "Write my version", hint: "discards the changes made on disk" },
+        { value: "preview", label: "Preview diff", hint: "on-disk file → my version" },
+      ],
     });
 
-    if (typeof selected === "symbol") {
-      return;
+    if (typeof choice === "symbol" || choice === "cancel") {
+      console.log("\n❌ Changes cancelled\n");
+      return false;
     }
+    if (choice === "overwrite") return true;
 
-    selectedModelIds = selected as string[];
+    console.log(`\n${formatSettingsDiff(currentText, newText)}\n`);
   }
+}
 
-  if (selectedModelIds.length === 0) {
-    console.log("⚠️  No models selected");
-    return;
+function providersOf(settingsText: string): Record<string, any> {
+  return Object.fromEntries(
+    listConfiguredProviders(jsonc.parse(settingsText)).map(({ ref, provider }) => [
+      providerLabel(ref),
+      provider,
+    ]),
+  );
+}
+
+function summarizeProviderChanges(
+  beforeText: string,
+  afterText: string,
+): SettingsSnapshot["changes"] {
+  const before = providersOf(beforeText);
+  const after = providersOf(afterText);
+  const changes: SettingsSnapshot["changes"] = { added: [], removed: [], modified: [] };
+
+  for (const name of Object.keys(after)) {
+    if (!(name in before)) changes.added.push(name);
+    else if (JSON.stringify(before[name]) !== JSON.stringify(after[name])) {
+      changes.modified.push(name);
+    }
   }
+  for (const name of Object.keys(before)) {
+    if (!(name in after)) changes.removed.push(name);
+  }
+  return changes;
+}
 
-  console.log(`\n✓ Selected ${selectedModelIds.length} models`);
+function formatProviderChanges(changes: SettingsSnapshot["changes"]): string {
+  const parts = [
+    ...changes.added.map((n) => `+${n}`),
+    ...changes.removed.map((n) => `-${n}`),
+    ...changes.modified.map((n) => `~${n}`),
+  ];
+  return parts.length > 0 ? parts.join(" ") : "(no provider changes)";
+}
 
-  // Ask for default max_tokens
-  const maxTokensInput = await text({
-    message: "Default max_tokens for models:",
-    placeholder: "8192",
-    defaultValue: "8192",
-    validate: (value) => {
-      const num = parseInt(value, 10);
-      if (isNaN(num) || num <= 0) return "Must be a positive number";
-    },
-  });
+function saveSettingsSnapshot(previousText: string, nextText: string, undoOf?: string) {
+  mkdirSync(HISTORY_DIR, { recursive: true });
 
-  if (typeof maxTokensInput === "symbol") {
-    return;
+  const now = new Date();
+  const baseId = now.toISOString().replace(/[-:.]/g, "");
+  let id = baseId;
+  for (let i = 1; existsSync(join(HISTORY_DIR, `${id}.json`)); i++) {
+    id = `${baseId}-${i}`;
   }
 
-  const defaultMaxTokens = parseInt(maxTokensInput as string, 10) || 8192;
+  const snapshot: SettingsSnapshot = {
+    id,
+    created_at: now.toISOString(),
+    settings_path: runtimeOptions.settingsPath,
+    changes: summarizeProviderChanges(previousText, nextText),
+    undo_of: undoOf,
+    text: previousText,
+  };
+  writeFileSync(join(HISTORY_DIR, `${id}.json`), JSON.stringify(snapshot, null, 2), {
+    encoding: "utf-8",
+    mode: 0o600,
+  });
 
-  // Build available_models array
-  const availableModels: AvailableModel[] = [];
-  for (const modelId of selectedModelIds) {
-    const providerModel = models.find((m) => m.id === modelId);
-    const inferred = await inferModelSettings(modelId, providerModel, defaultMaxTokens);
-    availableModels.push({
-      name: modelId,
-      display_name: bestEffortDisplayName(modelId, providerModel),
-      max_tokens: inferred.max_tokens,
-      capabilities: inferred.capabilities,
-    });
+  // Rotate: keep only the newest snapshots of this settings file, so busy
+  // files never evict the history of others.
+  for (const old of listSettingsSnapshots().slice(HISTORY_LIMIT)) {
+    unlinkSync(join(HISTORY_DIR, `${old.id}.json`));
   }
+}
 
-  const newProvider: Provider = {
-    api_url: normalizedApiUrl,
-    available_models: availableModels,
-  };
+// Snapshots taken within the same millisecond get "-1", "-2", … appended to
+// their id; the suffix breaks ties numerically ("…Z" < "…Z-1" < "…Z-10").
+function compareSettingsSnapshots(a: SettingsSnapshot, b: SettingsSnapshot): number {
+  const sequence = (snapshot: SettingsSnapshot) => Number(snapshot.id.match(/-(\d+)$/)?.[1] ?? 0);
+  return a.created_at.localeCompare(b.created_at) || sequence(a) - sequence(b);
+}
 
-  // Read settings again for writing
-  const { text: settingsText } = readZedSettings();
-  const settingsData = jsonc.parse(settingsText);
+// Newest first, limited to snapshots of the settings file currently in use.
+function listSettingsSnapshots(): SettingsSnapshot[] {
+  if (!existsSync(HISTORY_DIR)) return [];
+
+  const snapshots: SettingsSnapshot[] = [];
+  for (const file of readdirSync(HISTORY_DIR).filter((f) => f.endsWith(".json"))) {
+    try {
+      const snapshot = JSON.parse(
+        readFileSync(join(HISTORY_DIR, file), "utf-8"),
+      ) as SettingsSnapshot;
+      if (snapshot.settings_path === runtimeOptions.settingsPath) snapshots.push(snapshot);
+    } catch {
+      // Skip unreadable snapshot files.
+    }
+  }
+  return snapshots.sort((a, b) => compareSettingsSnapshots(b, a));
+}
 
-  // Update settings using jsonc-parser to preserve formatting
-  const path = ["language_models", "openai_compatible", providerName as string];
+function readZedApiConfig(): ZedApiConfig {
+  if (!existsSync(ZED_API_CONFIG_PATH)) return {};
+  try {
+    return JSON.parse(readFileSync(ZED_API_CONFIG_PATH, "utf-8")) as ZedApiConfig;
+  } catch {
+    exitWithError(`Cannot parse ${ZED_API_CONFIG_PATH}`);
+  }
+}
 
-  // Ensure parent paths exist
-  let updatedText = settingsText;
+function writeZedApiConfig(config: ZedApiConfig) {
+  mkdirSync(ZED_API_CONFIG_DIR, { recursive: true });
+  writeFileSync(ZED_API_CONFIG_PATH, JSON.stringify(config, null, 2) + "\n", "utf-8");
+}
 
-  if (!settingsData.language_models) {
-    updatedText = jsonc.applyEdits(
-      updatedText,
-      jsonc.modify(
-        updatedText,
-        ["language_models"],
-        {},
-        {
-          formattingOptions: { insertSpaces: true, tabSize: 2 },
-        },
-      ),
-    );
-  }
-
-  const settingsAfterLM = jsonc.parse(updatedText);
-  if (!settingsAfterLM.language_models.openai_compatible) {
-    updatedText = jsonc.applyEdits(
-      updatedText,
-      jsonc.modify(
-        updatedText,
-        ["language_models", "openai_compatible"],
-        {},
-        {
-          formattingOptions: { insertSpaces: true, tabSize: 2 },
-        },
-      ),
-    );
-  }
-
-  // Now set the provider
-  const edits = jsonc.modify(updatedText, path, newProvider, {
-    formattingOptions: { insertSpaces: true, tabSize: 2 },
-  });
-
-  updatedText = jsonc.applyEdits(updatedText, edits);
+// "openai_compatible.<name>" for named providers, the family ID otherwise.
+function providerConfigKey(ref: ProviderRef): string {
+  return ref.family === "openai_compatible" ? `openai_compatible.${ref.name}` : ref.family;
+}
 
-  // Write back
-  writeZedSettings(updatedText);
+// Request configs of providers that are being added. Their requests use them
+// right away, but they are only saved once the provider is written.
+const pendingRequestConfigs = new Map<string, ProviderRequestConfig>();
 
-  console.log(
-    `\n✅ Successfully configured provider "${providerName}" with ${availableModels.length} models!`,
+function readProviderRequestConfig(ref: ProviderRef): ProviderRequestConfig {
+  return (
+    pendingRequestConfigs.get(providerConfigKey(ref)) ??
+    readZedApiConfig().providers?.[providerConfigKey(ref)] ??
+    {}
   );
-
-  if (!apiKey) {
-    console.log(`\n💡 To use this provider, add to your shell rc file:\n`);
-    console.log(`   export ${envVarName}="your-api-key-here"\n`);
-  }
 }
 
-async function addModelsToProvider(providerName: string) {
-  const { text: settingsText, data: settings } = readZedSettings();
-  const providers = settings?.language_models?.openai_compatible || {};
-  const provider = providers[providerName];
+function savePendingRequestConfig(ref: ProviderRef) {
+  const config = pendingRequestConfigs.get(providerConfigKey(ref));
+  if (!config) return;
+  pendingRequestConfigs.delete(providerConfigKey(ref));
+  writeProviderRequestConfig(ref, config);
+}
 
-  if (!provider) {
-    console.log(`\n⚠️  Provider "${providerName}" not found\n`);
-    return;
+// An empty config removes the provider's entry.
+function writeProviderRequestConfig(ref: ProviderRef, requestConfig: ProviderRequestConfig) {
+  const config = readZedApiConfig();
+  const providers = { ...config.providers };
+  if (Object.keys(requestConfig).length > 0) {
+    providers[providerConfigKey(ref)] = requestConfig;
+  } else {
+    delete providers[providerConfigKey(ref)];
   }
+  writeZedApiConfig({
+    ...config,
+    providers: Object.keys(providers).length > 0 ? providers : undefined,
+  });
+}
 
-  // Get existing models
-  const existingModels = provider.available_models || [];
-  const existingModelNames = new Set<string>(
-    existingModels.map((m: AvailableModel) => m.name),
-  );
+// The header and scheme the key is sent with, or null when the config leaves
+// that to the family default or sends the key as a query parameter.
+function configuredAuthHeader(
+  config: ProviderRequestConfig,
+): { header: string; scheme: string } | null {
+  if (config.auth_query_param) return null;
+  if (!config.auth_header && config.auth_scheme === undefined) return null;
+  const header = config.auth_header ?? "Authorization";
+  const scheme = config.auth_scheme ?? (header.toLowerCase() === "authorization" ? "Bearer" : "");
+  return { header, scheme };
+}
 
-  // Fetch models from API
-  const modelsEndpoint = getModelsEndpoint(provider.api_url);
-  const envVarName = deriveEnvVarName(providerName);
-  const apiKey = process.env[envVarName];
+function moveProviderRequestConfig(oldRef: ProviderRef, newRef: ProviderRef) {
+  const config = readProviderRequestConfig(oldRef);
+  if (Object.keys(config).length === 0) return;
+  writeProviderRequestConfig(newRef, config);
+  writeProviderRequestConfig(oldRef, {});
+}
 
-  const fetchedModels = await fetchModels(modelsEndpoint, apiKey, providerName);
-  console.log(`\n✓ Found ${fetchedModels.length} models from API\n`);
+// A provider added later under the same name must not inherit the deleted
+// one's key placement, headers or disabled TLS verification.
+function removeProviderRequestConfig(ref: ProviderRef) {
+  if (Object.keys(readProviderRequestConfig(ref)).length === 0) return;
+  writeProviderRequestConfig(ref, {});
+}
 
-  // Ask if user wants to filter
-  const useFilter = await confirm({
-    message: "Filter models by keyword before selection?",
-    initialValue: false,
-  });
+function describeProviderRequestConfig(config: ProviderRequestConfig): string[] {
+  const lines: string[] = [];
+  const auth = configuredAuthHeader(config);
+  if (config.auth_query_param) {
+    lines.push(`API key: ?${config.auth_query_param}=<key>`);
+  } else if (auth) {
+    lines.push(`API key: ${auth.header}: ${auth.scheme ? `${auth.scheme} ` : ""}<key>`);
+  }
+  for (const [name, value] of Object.entries(config.headers ?? {})) {
+    lines.push(`Header: ${name}: ${value}`);
+  }
+  for (const [name, value] of Object.entries(config.query ?? {})) {
+    lines.push(`Query: ${name}=${value}`);
+  }
+  if (config.insecure) lines.push("TLS: certificate verification disabled");
+  return lines;
+}
 
-  if (typeof useFilter === "symbol") {
-    return;
+// The URL and headers of a request to a provider, with its configured auth
+// scheme, extra headers and query parameters applied. Without a config the
+// family's own auth headers are used.
+function providerRequest(
+  ref: ProviderRef | undefined,
+  url: string,
+  apiKey?: string,
+): { url: string; headers: Record<string, string>; insecure: boolean } {
+  const family = PROVIDER_FAMILIES[ref?.family ?? "openai_compatible"];
+  const config = ref ? readProviderRequestConfig(ref) : {};
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  const query: Record<string, string> = { ...config.query };
+  const auth = configuredAuthHeader(config);
+
+  if (apiKey && config.auth_query_param) {
+    query[config.auth_query_param] = apiKey;
+  } else if (apiKey && auth) {
+    headers[auth.header] = auth.scheme ? `${auth.scheme} ${apiKey}` : apiKey;
+  } else if (apiKey) {
+    Object.assign(headers, family.authHeaders(apiKey));
   }
+  Object.assign(headers, config.headers);
 
-  let modelsToShow = fetchedModels;
+  const insecure = config.insecure === true;
+  if (Object.keys(query).length === 0) return { url, headers, insecure };
+  const target = new URL(url);
+  for (const [name, value] of Object.entries(query)) target.searchParams.set(name, value);
+  return { url: target.toString(), headers, insecure };
+}
 
-  if (useFilter) {
-    const filterText = await text({
-      message: "Filter models (case-insensitive, partial match):",
-      placeholder: "e.g., gpt, claude, llama",
-      validate: (value) => {
-        if (!value) return "Filter text is required";
-      },
-    });
+// Keys sent as query parameters end up in URLs; never print or store them.
+function redactApiKey(url: string, apiKey?: string): string {
+  if (!apiKey || !url.includes("?")) return url;
+  const parsed = new URL(url);
+  const names = [...parsed.searchParams].filter(([, value]) => value === apiKey).map(([name]) => name);
+  if (names.length === 0) return url;
+  for (const name of names) parsed.searchParams.set(name, "***");
+  return parsed.toString();
+}
 
-    if (typeof filterText === "symbol") {
-      return;
-    }
+// A master key is only as private as the directory it shares with keys.enc.
+function keyfileUsesMasterKey(): boolean {
+  if (!existsSync(KEYFILE_PATH)) return !process.env.ZED_API_PASSPHRASE;
+  return (JSON.parse(readFileSync(KEYFILE_PATH, "utf-8")) as EncryptedKeyfile).kdf === "master-key";
+}
 
-    const filter = (filterText as string).toLowerCase();
-    modelsToShow = fetchedModels.filter((m) =>
-      m.id.toLowerCase().includes(filter),
-    );
+const KEYFILE_MASTER_KEY_WARNING =
+  `Without ZED_API_PASSPHRASE the keyfile's master key is stored in ${KEYFILE_MASTER_KEY_PATH}, ` +
+  `next to ${KEYFILE_PATH}: anyone who can read both can read the keys. ` +
+  "Set ZED_API_PASSPHRASE before the first key is stored, or use secret-service or pass.";
 
-    if (modelsToShow.length === 0) {
-      console.log(`\n⚠️  No models match filter "${filterText}"\n`);
-      return;
+function keyfileCipherKey(file: Pick<EncryptedKeyfile, "kdf" | "salt">): Buffer {
+  if (file.kdf === "scrypt") {
+    const passphrase = process.env.ZED_API_PASSPHRASE;
+    if (!passphrase) {
+      throw new Error(`${KEYFILE_PATH} is passphrase-protected; set ZED_API_PASSPHRASE`);
     }
-
-    console.log(`\n✓ Found ${modelsToShow.length} models matching "${filterText}"\n`);
+    return scryptSync(passphrase, Buffer.from(file.salt!, "base64"), 32);
+  }
+  if (!existsSync(KEYFILE_MASTER_KEY_PATH)) {
+    if (existsSync(KEYFILE_PATH)) {
+      throw new Error(`${KEYFILE_MASTER_KEY_PATH} is missing; cannot decrypt ${KEYFILE_PATH}`);
+    }
+    mkdirSync(ZED_API_CONFIG_DIR, { recursive: true });
+    writeFileSync(KEYFILE_MASTER_KEY_PATH, randomBytes(32).toString("base64"), {
+      encoding: "utf-8",
+      mode: 0o600,
+    });
   }
+  return Buffer.from(readFileSync(KEYFILE_MASTER_KEY_PATH, "utf-8").trim(), "base64");
+}
 
-  // Create options with existing models pre-selected
-  const choices = modelsToShow.map((m) => ({
-    value: m.id,
-    label: m.id,
-    hint: existingModelNames.has(m.id)
-      ? "✓ Currently active"
-      : deriveDisplayName(m.id),
-  }));
+function readKeyfile(): { kdf?: EncryptedKeyfile["kdf"]; keys: Record<string, string> } {
+  if (!existsSync(KEYFILE_PATH)) return { keys: {} };
 
-  // Pre-select existing models (only from filtered list)
-  const initialSelected = modelsToShow
-    .filter((m) => existingModelNames.has(m.id))
-    .map((m) => m.id);
+  const file = JSON.parse(readFileSync(KEYFILE_PATH, "utf-8")) as EncryptedKeyfile;
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    keyfileCipherKey(file),
+    Buffer.from(file.iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+  try {
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(file.data, "base64")),
+      decipher.final(),
+    ]).toString("utf-8");
+    return { kdf: file.kdf, keys: JSON.parse(plaintext) };
+  } catch {
+    throw new Error(`Cannot decrypt ${KEYFILE_PATH} (wrong passphrase or master key)`);
+  }
+}
 
-  const selected = await multiselect({
-    message:
-      "Select models (existing models are pre-selected, space to toggle):",
-    options: choices,
-    initialValues: initialSelected,
-  });
+function writeKeyfile(keys: Record<string, string>, kdf: EncryptedKeyfile["kdf"]) {
+  const salt = kdf === "scrypt" ? randomBytes(16).toString("base64") : undefined;
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", keyfileCipherKey({ kdf, salt }), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(keys), "utf-8"), cipher.final()]);
+
+  const file: EncryptedKeyfile = {
+    version: 1,
+    kdf,
+    salt,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+  mkdirSync(ZED_API_CONFIG_DIR, { recursive: true });
+  writeFileSync(KEYFILE_PATH, JSON.stringify(file, null, 2), { encoding: "utf-8", mode: 0o600 });
+}
 
-  if (typeof selected === "symbol") {
-    return;
+function runSecretCommand(
+  command: string,
+  args: string[],
+  input?: string,
+): { ok: boolean; stdout: string } {
+  const result = spawnSync(command, args, { input, encoding: "utf-8" });
+  if (result.error) {
+    throw new Error(`${command} is not available (${result.error.message})`);
   }
+  return { ok: result.status === 0, stdout: result.stdout ?? "" };
+}
 
-  const selectedModelIds = selected as string[];
-  const selectedSet = new Set(selectedModelIds);
-
-  // Calculate changes (need to account for filtered out existing models)
-  const additions = selectedModelIds.filter(
-    (id) => !existingModelNames.has(id),
-  );
+function passStoreEntry(name: string): string {
+  return `${SECRET_NAMESPACE}/${name}`;
+}
 
-  // Only consider removals from models that were in the filtered view
-  const modelsInView = new Set(modelsToShow.map((m) => m.id));
-  const removals = Array.from(existingModelNames).filter(
-    (id: string) => modelsInView.has(id) && !selectedSet.has(id),
-  );
+const SECRET_BACKENDS: Record<SecretBackendId, SecretBackend> = {
+  keyfile: {
+    id: "keyfile",
+    label: `keyfile (${KEYFILE_PATH})`,
+    get: (name) => readKeyfile().keys[name],
+    set: (name, value) => {
+      const { kdf, keys } = readKeyfile();
+      // Keep the protection an existing file was created with.
+      writeKeyfile(
+        { ...keys, [name]: value },
+        kdf ?? (process.env.ZED_API_PASSPHRASE ? "scrypt" : "master-key"),
+      );
+    },
+    remove: (name) => {
+      const { kdf, keys } = readKeyfile();
+      if (!(name in keys)) return false;
+      delete keys[name];
+      writeKeyfile(keys, kdf!);
+      return true;
+    },
+    list: () => Object.keys(readKeyfile().keys),
+  },
+  "secret-service": {
+    id: "secret-service",
+    label: "Secret Service keyring (secret-tool)",
+    get: (name) => {
+      const result = runSecretCommand("secret-tool", [
+        "lookup", "service", SECRET_NAMESPACE, "name", name,
+      ]);
+      return result.ok && result.stdout ? result.stdout.replace(/\n$/, "") : undefined;
+    },
+    set: (name, value) => {
+      const result = runSecretCommand(
+        "secret-tool",
+        ["store", `--label=${SECRET_NAMESPACE} ${name}`, "service", SECRET_NAMESPACE, "name", name],
+        value,
+      );
+      if (!result.ok) throw new Error(`secret-tool could not store ${name}`);
+    },
+    remove: (name) => {
+      if (SECRET_BACKENDS["secret-service"].get(name) === undefined) return false;
+      return runSecretCommand("secret-tool", [
+        "clear", "service", SECRET_NAMESPACE, "name", name,
+      ]).ok;
+    },
+    list: () => {
+      // `search` also prints the secrets; only the name attributes are kept.
+      const result = runSecretCommand("secret-tool", [
+        "search", "--all", "service", SECRET_NAMESPACE,
+      ]);
+      return result.stdout
+        .split("\n")
+        .map((line) => line.match(/^attribute\.name = (.+)$/)?.[1])
+        .filter((name): name is string => Boolean(name));
+    },
+  },
+  pass: {
+    id: "pass",
+    label: "pass password store",
+    get: (name) => {
+      const result = runSecretCommand("pass", ["show", passStoreEntry(name)]);
+      return result.ok ? result.stdout.split("\n")[0] || undefined : undefined;
+    },
+    set: (name, value) => {
+      const result = runSecretCommand(
+        "pass",
+        ["insert", "--multiline", "--force", passStoreEntry(name)],
+        `${value}\n`,
+      );
+      if (!result.ok) throw new Error(`pass could not store ${name}`);
+    },
+    remove: (name) => runSecretCommand("pass", ["rm", "--force", passStoreEntry(name)]).ok,
+    list: () => {
+      const storeDir = join(
+        process.env.PASSWORD_STORE_DIR || join(homedir(), ".password-store"),
+        SECRET_NAMESPACE,
+      );
+      if (!existsSync(storeDir)) return [];
+      return readdirSync(storeDir)
+        .filter((f) => f.endsWith(".gpg"))
+        .map((f) => f.slice(0, -".gpg".length));
+    },
+  },
+};
 
-  // Check if no changes
-  if (additions.length === 0 && removals.length === 0) {
-    console.log("\n⚠️  No changes made\n");
-    return;
+function secretBackend(): SecretBackend {
+  const id =
+    process.env.ZED_API_SECRET_BACKEND || readZedApiConfig().secret_backend || "keyfile";
+  const backend = SECRET_BACKENDS[id as SecretBackendId];
+  if (!backend) {
+    exitWithError(
+      `Unknown secret backend "${id}" (${Object.keys(SECRET_BACKENDS).join(", ")})`,
+    );
   }
+  return backend;
+}
 
-  // Show confirmation
-  console.log("\n📝 Changes:");
-  if (additions.length > 0) {
-    console.log(`\n  ➕ Adding ${additions.length} model(s):`);
-    additions.forEach((id) => console.log(`     - ${id}`));
+// Stored keys win over the environment and are exported into it, so every
+// request this process makes sees them. Lookups are memoized because pass and
+// Secret Service may prompt to unlock.
+function resolveApiKey(envVarName: string): string | undefined {
+  if (!storedKeyLookups.has(envVarName)) {
+    let stored: string | undefined;
+    try {
+      stored = secretBackend().get(envVarName);
+    } catch (error) {
+      console.error(`⚠️  Could not read ${envVarName} from the key store: ${(error as Error).message}`);
+    }
+    storedKeyLookups.set(envVarName, stored);
   }
-  if (removals.length > 0) {
-    console.log(`\n  ➖ Removing ${removals.length} model(s):`);
-    removals.forEach((id) => console.log(`     - ${id}`));
+
+  const stored = storedKeyLookups.get(envVarName);
+  if (stored) process.env[envVarName] = stored;
+  return process.env[envVarName];
+}
+
+// Called after a key was typed in: it is already loaded for this session, and
+// is only persisted to the key store and the managed shell block, never printed.
+async function offerToStoreApiKey(envVarName: string, apiKey: string) {
+  const backend = secretBackend();
+  const save = await confirm({
+    message: `Save ${envVarName} to the ${backend.label}?`,
+    initialValue: true,
+  });
+
+  if (typeof save !== "symbol" && save) {
+    try {
+      backend.set(envVarName, apiKey);
+      storedKeyLookups.set(envVarName, apiKey);
+    } catch (error) {
+      console.error(`\n⚠️  Could not save ${envVarName}: ${(error as Error).message}\n`);
+    }
   }
-  console.log("");
 
-  const confirmed = await confirm({
-    message: "Apply these changes?",
+  // Zed only sees keys exported by the shell it was launched from.
+  const integration = shellIntegration();
+  const exportKey = await confirm({
+    message: `Export ${envVarName} for Zed from ${tildify(integration.exportsPath)}?`,
     initialValue: true,
   });
 
-  if (typeof confirmed === "symbol" || !confirmed) {
-    console.log("\n❌ Changes cancelled\n");
+  if (typeof exportKey === "symbol" || !exportKey) {
+    console.log(`\n🔑 Zed will not see ${envVarName} until it is exported from your shell\n`);
     return;
   }
 
-  // Ask for default max_tokens for new models (only if adding)
-  let defaultMaxTokens = 8192;
-  if (additions.length > 0) {
-    const maxTokensInput = await text({
-      message: "Default max_tokens for new models:",
-      placeholder: "8192",
-      defaultValue: "8192",
-      validate: (value) => {
-        const num = parseInt(value, 10);
-        if (isNaN(num) || num <= 0) return "Must be a positive number";
-      },
-    });
+  setShellExport(envVarName, apiKey);
+  note(
+    `${describeShellExport(envVarName, integration)}.\n\n` +
+      `Open a new terminal and restart Zed to pick it up.`,
+    "💾 API Key Saved",
+  );
+}
 
-    if (typeof maxTokensInput === "symbol") {
-      return;
-    }
+function tildify(path: string): string {
+  return path.startsWith(homedir()) ? `~${path.slice(homedir().length)}` : path;
+}
 
-    defaultMaxTokens = parseInt(maxTokensInput as string, 10) || 8192;
-  }
+function detectShell(): ShellKind {
+  const name = basename(process.env.SHELL || "");
+  return name === "zsh" || name === "bash" || name === "fish" ? name : "sh";
+}
 
-  // Build new available_models array
-  const existingModelsMap = new Map<string, AvailableModel>();
-  for (const model of existingModels) {
-    existingModelsMap.set(model.name, model);
+function shellRcPath(shell: ShellKind): string {
+  switch (shell) {
+    case "zsh":
+      return join(process.env.ZDOTDIR || homedir(), ".zshrc");
+    case "bash":
+      return join(homedir(), ".bashrc");
+    case "fish":
+      return join(xdgConfigHome(), "fish/config.fish");
+    case "sh":
+      return join(homedir(), ".profile");
   }
+}
 
-  // Combine: selected models + existing models that weren't in the filtered view
-  const removalsSet = new Set(removals);
-  const allModelIds = new Set([
-    ...selectedModelIds,
-    ...Array.from(existingModelNames).filter(
-      (id: string) => !modelsInView.has(id), // Keep existing models not in filtered view
-    ),
-  ]);
+function shellIntegration(): ShellIntegration {
+  const config = readZedApiConfig();
+  const shell = config.shell ?? detectShell();
+  const target = config.shell_target ?? "env-file";
+  const rcPath = shellRcPath(shell);
+  return {
+    shell,
+    rcPath,
+    target,
+    exportsPath:
+      target === "rc" ? rcPath : join(ZED_API_CONFIG_DIR, shell === "fish" ? "env.fish" : "env"),
+  };
+}
 
-  const availableModels: AvailableModel[] = [];
-  for (const modelId of Array.from(allModelIds)) {
-    const existing = existingModelsMap.get(modelId);
-    if (existing && !removalsSet.has(modelId)) {
-      // Preserve settings for existing models (unless explicitly removed)
-      availableModels.push(existing);
-      continue;
-    }
+function quoteShellValue(shell: ShellKind, value: string): string {
+  return shell === "fish"
+    ? `'${value.replace(/[\\']/g, "\\$&")}'`
+    : `'${value.replace(/'/g, "'\\''")}'`;
+}
 
-    if (removalsSet.has(modelId)) continue;
+function shellExportLine(shell: ShellKind, name: string, value: string): string {
+  const quoted = quoteShellValue(shell, value);
+  return shell === "fish" ? `set -gx ${name} ${quoted}` : `export ${name}=${quoted}`;
+}
 
-    const providerModel = fetchedModels.find((m) => m.id === modelId);
-    const inferred = await inferModelSettings(modelId, providerModel, defaultMaxTokens);
-    availableModels.push({
-      name: modelId,
-      display_name: bestEffortDisplayName(modelId, providerModel),
-      max_tokens: inferred.max_tokens,
-      capabilities: inferred.capabilities,
-    });
-  }
+function shellSourceLine(shell: ShellKind, path: string): string {
+  const quoted = quoteShellValue(shell, path);
+  return shell === "fish"
+    ? `test -f ${quoted}; and source ${quoted}`
+    : `[ -f ${quoted} ] && . ${quoted}`;
+}
 
-  // Update settings
-  const path = [
-    "language_models",
-    "openai_compatible",
-    providerName,
-    "available_models",
-  ];
-  const edits = jsonc.modify(settingsText, path, availableModels, {
-    formattingOptions: { insertSpaces: true, tabSize: 2 },
-  });
+function managedExportName(line: string): string | undefined {
+  return line.match(/^(?:export |set -gx )([A-Za-z_][A-Za-z0-9_]*)[= ]/)?.[1];
+}
+
+// Lines between the markers, or an empty list when the file has no block.
+function readManagedBlock(text: string): string[] {
+  const lines = text.split("\n");
+  const begin = lines.indexOf(SHELL_BLOCK_BEGIN);
+  const end = lines.indexOf(SHELL_BLOCK_END, begin + 1);
+  return begin === -1 || end === -1 ? [] : lines.slice(begin + 1, end);
+}
 
-  const updatedText = jsonc.applyEdits(settingsText, edits);
-  writeZedSettings(updatedText);
+// Replaces the managed block (appending one if needed); an empty block is removed.
+function replaceManagedBlock(text: string, blockLines: string[]): string {
+  const lines = text.split("\n");
+  const begin = lines.indexOf(SHELL_BLOCK_BEGIN);
+  const end = lines.indexOf(SHELL_BLOCK_END, begin + 1);
+  const block = blockLines.length > 0 ? [SHELL_BLOCK_BEGIN, ...blockLines, SHELL_BLOCK_END] : [];
 
-  console.log(`\n✅ Successfully updated provider "${providerName}"`);
-  if (additions.length > 0) {
-    console.log(`   ➕ Added ${additions.length} model(s)`);
-  }
-  if (removals.length > 0) {
-    console.log(`   ➖ Removed ${removals.length} model(s)`);
+  if (begin !== -1 && end !== -1) {
+    lines.splice(begin, end - begin + 1, ...block);
+    return lines.join("\n");
   }
-  console.log("");
-}
+  if (block.length === 0) return text;
 
-async function listProviders() {
-  const { data: settings } = readZedSettings();
-  const providers = settings?.language_models?.openai_compatible || {};
-  const providerNames = Object.keys(providers);
+  const separator = text === "" ? "" : text.endsWith("\n") ? "\n" : "\n\n";
+  return `${text}${separator}${block.join("\n")}\n`;
+}
 
-  if (providerNames.length === 0) {
-    console.log("\n📭 No providers configured\n");
-    console.log("💡 Use 'Add provider' to add your first provider\n");
-    return;
+// Returns whether the block changed. Only the block is ever rewritten, so the
+// rest of a user's startup file is left byte-for-byte intact.
+function updateManagedFile(
+  path: string,
+  update: (blockLines: string[]) => string[],
+  mode?: number,
+): boolean {
+  const text = existsSync(path) ? readFileSync(path, "utf-8") : "";
+  const updated = replaceManagedBlock(text, update(readManagedBlock(text)));
+  if (updated === text) return false;
+
+  if (runtimeOptions.dryRun) {
+    console.log(`🔍 Dry run: ${tildify(path)} was not modified`);
+    return true;
   }
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, updated, { encoding: "utf-8", mode });
+  return true;
+}
 
-  console.log(`\n📋 Configured Providers (${providerNames.length}):\n`);
-  console.log("─".repeat(80));
+function listShellExports(integration: ShellIntegration): string[] {
+  if (!existsSync(integration.exportsPath)) return [];
+  return readManagedBlock(readFileSync(integration.exportsPath, "utf-8"))
+    .map(managedExportName)
+    .filter((name): name is string => Boolean(name));
+}
 
-  for (const name of providerNames) {
-    const provider = providers[name];
-    const modelCount = provider.available_models?.length || 0;
-    console.log(`\n🔧 ${name}`);
-    console.log(`   URL: ${provider.api_url}`);
-    console.log(`   Models: ${modelCount}`);
+// Adds or updates the export and, for the env file, the rc line that sources it.
+function setShellExport(name: string, value: string): ShellIntegration {
+  const integration = shellIntegration();
+  const line = shellExportLine(integration.shell, name, value);
+
+  updateManagedFile(
+    integration.exportsPath,
+    (lines) =>
+      lines.some((l) => managedExportName(l) === name)
+        ? lines.map((l) => (managedExportName(l) === name ? line : l))
+        : [...lines, line],
+    integration.target === "env-file" ? 0o600 : undefined,
+  );
+  if (integration.target === "env-file") {
+    updateManagedFile(integration.rcPath, () => [
+      shellSourceLine(integration.shell, integration.exportsPath),
+    ]);
   }
+  return integration;
+}
 
-  console.log("\n" + "─".repeat(80) + "\n");
+function removeShellExport(name: string): ShellIntegration | null {
+  const integration = shellIntegration();
+  const removed = updateManagedFile(integration.exportsPath, (lines) =>
+    lines.filter((l) => managedExportName(l) !== name),
+  );
+  return removed ? integration : null;
 }
 
-async function editModelSettings(providerName?: string) {
-  const { text: settingsText, data: settings } = readZedSettings();
-  const providers = settings?.language_models?.openai_compatible || {};
-  const providerNames = Object.keys(providers);
+// Drops the export of a deleted provider unless another provider still uses
+// the same variable.
+function removeProviderShellExport(ref: ProviderRef, updatedSettingsText: string) {
+  const envVarName = providerEnvVarName(ref);
+  const stillUsed = listConfiguredProviders(jsonc.parse(updatedSettingsText)).some(
+    (c) => providerEnvVarName(c.ref) === envVarName,
+  );
+  if (stillUsed) return;
 
-  if (providerNames.length === 0) {
-    console.log("\n⚠️  No providers configured. Create a provider first.\n");
-    return;
+  const integration = removeShellExport(envVarName);
+  if (integration) {
+    console.log(`🧹 Removed ${envVarName} from ${tildify(integration.exportsPath)}`);
   }
+}
 
-  // Step 1: Select provider (skip if provided)
-  let selectedProvider = providerName;
-
-  if (!selectedProvider) {
-    const result = await select({
-      message: "Select provider to edit:",
-      options: providerNames.map((name) => ({
-        value: name,
-        label: name,
-        hint: `${providers[name].available_models?.length || 0} models`,
-      })),
-    });
+// A renamed provider derives a new key variable; carry the key over in the
+// key store and the shell block so the provider keeps working. Called after
+// the rename was written. Names that differ only in punctuation (or a built-in
+// family such as openai) share a variable, so a key another provider still
+// reads is copied instead of moved.
+function moveApiKey(oldEnvVarName: string, newEnvVarName: string) {
+  if (oldEnvVarName === newEnvVarName) return;
+  const shared = listConfiguredProviders(readZedSettings().data).some(
+    ({ ref }) => providerEnvVarName(ref) === oldEnvVarName,
+  );
+  const verb = shared ? "Copied" : "Moved";
 
-    if (typeof result === "symbol") {
-      return;
+  try {
+    const backend = secretBackend();
+    const value = backend.get(oldEnvVarName);
+    if (value !== undefined) {
+      backend.set(newEnvVarName, value);
+      if (!shared) backend.remove(oldEnvVarName);
+      console.log(`🔑 ${verb} ${oldEnvVarName} to ${newEnvVarName} in the ${backend.label}`);
     }
+  } catch (error) {
+    console.error(`⚠️  Could not move ${oldEnvVarName} in the key store: ${(error as Error).message}`);
+  }
 
-    selectedProvider = result as string;
+  const integration = shellIntegration();
+  const moved = updateManagedFile(integration.exportsPath, (lines) =>
+    lines
+      .filter((l) => managedExportName(l) !== newEnvVarName)
+      .flatMap((l) => {
+        if (managedExportName(l) !== oldEnvVarName) return [l];
+        const renamed = l.replace(oldEnvVarName, newEnvVarName);
+        return shared ? [l, renamed] : [renamed];
+      }),
+  );
+  if (moved) {
+    console.log(
+      `🐚 ${shared ? "Copied" : "Renamed"} ${oldEnvVarName} to ${newEnvVarName} in ${tildify(integration.exportsPath)}`,
+    );
   }
+}
 
-  const provider = providers[selectedProvider];
-  const models = provider.available_models || [];
+function describeShellExport(name: string, integration: ShellIntegration): string {
+  return integration.target === "env-file"
+    ? `Exported ${name} from ${tildify(integration.exportsPath)} (sourced by ${tildify(integration.rcPath)})`
+    : `Exported ${name} from ${tildify(integration.exportsPath)}`;
+}
 
-  if (models.length === 0) {
-    console.log("\n⚠️  No models in this provider.\n");
-    return;
-  }
+const JSONC_MODIFY_OPTIONS: jsonc.ModificationOptions = {
+  formattingOptions: { insertSpaces: true, tabSize: 2 },
+};
 
-  // Step 2: Select models to edit
-  const selectedModels = await multiselect({
-    message: "Select models to edit (space to toggle, enter to confirm):",
-    options: models.map((m: AvailableModel) => ({
-      value: m.name,
-      label: m.display_name,
-      hint: `${m.max_tokens} tokens`,
-    })),
-    required: true,
-  });
+function modifySettingsText(
+  settingsText: string,
+  path: jsonc.JSONPath,
+  value: any,
+): string {
+  return jsonc.applyEdits(
+    settingsText,
+    jsonc.modify(settingsText, path, value, JSONC_MODIFY_OPTIONS),
+  );
+}
 
-  if (typeof selectedModels === "symbol") {
-    return;
+// Removals go last and from the highest index down, so earlier edits keep
+// their paths.
+function applySettingsEdits(settingsText: string, edits: SettingsEdit[]): string {
+  const changes = edits.filter((edit) => edit.value !== undefined);
+  const removals = edits
+    .filter((edit) => edit.value === undefined)
+    .sort((a, b) => JSON.stringify(b.path).localeCompare(JSON.stringify(a.path), undefined, { numeric: true }));
+
+  let updatedText = settingsText;
+  for (const edit of [...changes, ...removals]) {
+    updatedText = modifySettingsText(updatedText, edit.path, edit.value);
   }
+  return updatedText;
+}
 
-  const modelNames = selectedModels as string[];
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
 
-  if (modelNames.length === 0) {
-    console.log("\n⚠️  No models selected.\n");
+function isJsonObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// Lists of uniquely named entries (available_models) are merged by name.
+function isNamedList(value: unknown): value is { name: string }[] {
+  if (!Array.isArray(value)) return false;
+  const names = value.map((item) => (isJsonObject(item) ? item.name : undefined));
+  return names.every((name) => typeof name === "string") && new Set(names).size === names.length;
+}
+
+// Three-way merge of one node: what this edit changed (base → edited) is
+// replayed onto current, unless current changed the same node differently.
+function collectRebaseEdits(
+  path: jsonc.JSONPath,
+  base: any,
+  edited: any,
+  current: any,
+  edits: SettingsEdit[],
+  conflicts: jsonc.JSONPath[],
+) {
+  if (sameJson(base, edited) || sameJson(edited, current)) return;
+  if (sameJson(base, current)) {
+    edits.push({ path, value: edited });
     return;
   }
+  if (isJsonObject(base) && isJsonObject(edited) && isJsonObject(current)) {
+    for (const key of new Set([...Object.keys(base), ...Object.keys(edited)])) {
+      collectRebaseEdits([...path, key], base[key], edited[key], current[key], edits, conflicts);
+    }
+    return;
+  }
+  if (isNamedList(base) && isNamedList(edited) && isNamedList(current)) {
+    collectNamedListRebaseEdits(path, base, edited, current, edits, conflicts);
+    return;
+  }
+  conflicts.push(path);
+}
 
-  // Step 3: Choose what to edit
-  const editAction = await select({
-    message: "What do you want to edit?",
-    options: [
-      { value: "max_tokens", label: "Max tokens" },
-      { value: "tools", label: "Tools capability" },
-      { value: "images", label: "Images capability" },
-      { value: "parallel_tool_calls", label: "Parallel tool calls capability" },
-      { value: "prompt_cache_key", label: "Prompt cache key capability" },
-    ],
-  });
-
-  if (typeof editAction === "symbol") {
+// Entries are looked up by name in the current list, so an edit made by index
+// against stale text still lands on the right model after others were added,
+// removed or reordered. New entries are appended.
+function collectNamedListRebaseEdits(
+  path: jsonc.JSONPath,
+  base: { name: string }[],
+  edited: { name: string }[],
+  current: { name: string }[],
+  edits: SettingsEdit[],
+  conflicts: jsonc.JSONPath[],
+) {
+  const indexOf = (list: { name: string }[], name: string) =>
+    list.findIndex((entry) => entry.name === name);
+  const kept = (list: { name: string }[], other: { name: string }[]) =>
+    list.map((entry) => entry.name).filter((name) => indexOf(other, name) !== -1);
+
+  // A reorder can't be replayed onto a list that changed too
+  if (!sameJson(kept(base, edited), kept(edited, base))) {
+    conflicts.push(path);
     return;
   }
 
-  let updatedText = settingsText;
+  for (const entry of edited) {
+    const baseIndex = indexOf(base, entry.name);
+    const currentIndex = indexOf(current, entry.name);
+    if (baseIndex === -1) {
+      if (currentIndex === -1) edits.push({ path: [...path, -1], value: entry });
+      else if (!sameJson(current[currentIndex], entry)) conflicts.push([...path, currentIndex]);
+    } else if (currentIndex === -1) {
+      if (!sameJson(base[baseIndex], entry)) conflicts.push([...path, baseIndex]);
+    } else {
+      collectRebaseEdits(
+        [...path, currentIndex],
+        base[baseIndex],
+        entry,
+        current[currentIndex],
+        edits,
+        conflicts,
+      );
+    }
+  }
 
-  // Step 4: Apply changes
-  if (editAction === "max_tokens") {
-    const newMaxTokens = await text({
-      message: "New max_tokens value:",
-      placeholder: "8192",
-      validate: (value) => {
-        const num = parseInt(value, 10);
-        if (isNaN(num) || num <= 0) return "Must be a positive number";
-      },
-    });
-
-    if (typeof newMaxTokens === "symbol") {
-      return;
+  for (const entry of base) {
+    const currentIndex = indexOf(current, entry.name);
+    if (indexOf(edited, entry.name) !== -1 || currentIndex === -1) continue;
+    if (sameJson(current[currentIndex], entry)) {
+      edits.push({ path: [...path, currentIndex], value: undefined });
+    } else {
+      conflicts.push([...path, currentIndex]);
     }
+  }
+}
 
-    const tokenValue = parseInt(newMaxTokens as string, 10);
+function rebaseSettingsEdit(
+  baseText: string,
+  editedText: string,
+  currentText: string,
+): SettingsRebase {
+  if (settingsSyntaxErrors(currentText).length > 0) return { text: editedText, conflicts: [[]] };
+
+  const parse = (text: string) => jsonc.parse(text, [], { allowTrailingComma: true });
+  const edits: SettingsEdit[] = [];
+  const conflicts: jsonc.JSONPath[] = [];
+  collectRebaseEdits([], parse(baseText), parse(editedText), parse(currentText), edits, conflicts);
+  return { text: applySettingsEdits(currentText, edits), conflicts };
+}
 
-    for (const modelName of modelNames) {
-      const modelIndex = models.findIndex(
-        (m: AvailableModel) => m.name === modelName,
-      );
-      const path = [
-        "language_models",
-        "openai_compatible",
-        selectedProvider,
-        "available_models",
-        modelIndex,
-        "max_tokens",
-      ];
+function setProviderInSettingsText(
+  settingsText: string,
+  ref: ProviderRef,
+  provider: { api_url?: string; available_models: FamilyModel[] },
+): string {
+  let updatedText = settingsText;
+  const path = providerSettingsPath(ref);
 
-      const edits = jsonc.modify(updatedText, path, tokenValue, {
-        formattingOptions: { insertSpaces: true, tabSize: 2 },
-      });
-      updatedText = jsonc.applyEdits(updatedText, edits);
-    }
+  // Ensure parent paths exist
+  const settingsData = jsonc.parse(updatedText) || {};
+  if (!settingsData.language_models) {
+    updatedText = modifySettingsText(updatedText, ["language_models"], {});
+  }
 
-    console.log(
-      `\n✅ Updated max_tokens to ${tokenValue} for ${modelNames.length} model(s)\n`,
+  const settingsAfterLM = jsonc.parse(updatedText);
+  if (ref.family === "openai_compatible" && !settingsAfterLM.language_models.openai_compatible) {
+    updatedText = modifySettingsText(
+      updatedText,
+      ["language_models", "openai_compatible"],
+      {},
     );
-  } else {
-    // Capability toggle
-    const currentValue = models.find(
-      (m: AvailableModel) => m.name === modelNames[0],
-    )?.capabilities?.[editAction as keyof AvailableModel["capabilities"]];
+  }
 
-    const newValue = await confirm({
-      message: `Enable ${editAction}?`,
-      initialValue: currentValue ?? false,
-    });
+  // New blocks are written whole; existing ones only get the keys this tool
+  // manages, so other per-family settings in the block survive.
+  if (!getConfiguredProvider(jsonc.parse(updatedText), ref)) {
+    return modifySettingsText(updatedText, path, provider);
+  }
+  if (provider.api_url !== undefined) {
+    updatedText = modifySettingsText(updatedText, [...path, "api_url"], provider.api_url);
+  }
+  return modifySettingsText(
+    updatedText,
+    [...path, "available_models"],
+    provider.available_models,
+  );
+}
 
-    if (typeof newValue === "symbol") {
-      return;
-    }
+function setProviderModelsInSettingsText(
+  settingsText: string,
+  ref: ProviderRef,
+  models: FamilyModel[],
+): string {
+  return modifySettingsText(
+    settingsText,
+    [...providerSettingsPath(ref), "available_models"],
+    models,
+  );
+}
 
-    for (const modelName of modelNames) {
-      const modelIndex = models.findIndex(
-        (m: AvailableModel) => m.name === modelName,
-      );
-      const path = [
-        "language_models",
-        "openai_compatible",
-        selectedProvider,
-        "available_models",
-        modelIndex,
-        "capabilities",
-        editAction as string,
-      ];
+function removeProviderFromSettingsText(settingsText: string, ref: ProviderRef): string {
+  return modifySettingsText(settingsText, providerSettingsPath(ref), undefined);
+}
 
-      const edits = jsonc.modify(updatedText, path, newValue, {
-        formattingOptions: { insertSpaces: true, tabSize: 2 },
-      });
-      updatedText = jsonc.applyEdits(updatedText, edits);
+function renameProviderInSettingsText(
+  settingsText: string,
+  oldName: string,
+  newName: string,
+): string {
+  const providers =
+    jsonc.parse(settingsText)?.language_models?.openai_compatible || {};
+
+  // Copy to new key, then delete the old one
+  const updatedText = modifySettingsText(
+    settingsText,
+    ["language_models", "openai_compatible", newName],
+    providers[oldName],
+  );
+  return removeProviderFromSettingsText(updatedText, openAICompatibleRef(oldName));
+}
+
+// With a probe target, every capability the family stores is taken from what
+// the model actually does; inconclusive probes keep the inferred value.
+async function buildAvailableModels(
+  modelIds: string[],
+  fetchedModels: Model[],
+  defaultMaxTokens: number,
+  family: ProviderFamily = PROVIDER_FAMILIES.openai_compatible,
+  probe?: ProbeTarget | null,
+): Promise<FamilyModel[]> {
+  const availableModels: FamilyModel[] = [];
+  const report: { name: string; capabilities: ModelCapabilities; sources: CapabilitySources }[] =
+    [];
+  const s = runtimeOptions.interactive
+    ? spinner()
+    : { start: (_msg: string) => {}, stop: (_msg: string) => {} };
+
+  for (const modelId of modelIds) {
+    const providerModel = fetchedModels.find((m) => m.id === modelId);
+    const inferred = await inferModelSettings(modelId, providerModel, defaultMaxTokens);
+
+    if (probe) {
+      s.start(`Probing ${modelId}`);
+      // As in check, a model that cannot answer a plain chat request is not probed further
+      const chat = await probeChat(probe, modelId);
+      for (const capability of chat.ok ? probeableCapabilities(family) : []) {
+        const result = await probeCapability(probe, modelId, capability);
+        if (result.inconclusive) continue;
+        inferred.capabilities[capability] = result.ok;
+        inferred.sources[capability] = "probe";
+      }
+      s.stop(chat.ok ? `Probed ${modelId}` : `Could not probe ${modelId}: ${chat.error}`);
+      report.push({ name: modelId, ...inferred });
     }
 
+    availableModels.push(
+      toFamilyModel(family, {
+        name: modelId,
+        display_name: bestEffortDisplayName(modelId, providerModel),
+        max_tokens: inferred.max_tokens,
+        max_output_tokens: inferred.max_output_tokens,
+        max_completion_tokens: inferred.max_output_tokens,
+        capabilities: inferred.capabilities,
+      }),
+    );
+  }
+
+  if (probe) printCapabilitySources(family, report);
+  return availableModels;
+}
+
+// Capabilities worth probing: the family must speak the OpenAI chat API and
+// store the flag in available_models.
+function probeableCapabilities(family: ProviderFamily): (keyof ModelCapabilities)[] {
+  if (!family.chatEndpoint) return [];
+  return CAPABILITY_KEYS.filter((key) => family.capabilityPaths[key]);
+}
+
+function printCapabilitySources(
+  family: ProviderFamily,
+  rows: { name: string; capabilities: ModelCapabilities; sources: CapabilitySources }[],
+) {
+  const keys = probeableCapabilities(family);
+  const nameWidth = Math.max(5, ...rows.map((r) => r.name.length));
+  // Wide enough for "yes (openrouter)"
+  const cell = (row: (typeof rows)[number], key: keyof ModelCapabilities) =>
+    `${row.capabilities[key] ? "yes" : "no"} (${row.sources[key]})`.padEnd(16);
+
+  console.log("\n🔬 Capability sources:\n");
+  console.log(
+    `  ${"Model".padEnd(nameWidth)}  ${keys
+      .map((k) => CAPABILITY_PROBE_LABELS[k].padEnd(16))
+      .join("  ")}`.trimEnd(),
+  );
+  for (const row of rows) {
     console.log(
-      `\n✅ Set ${editAction} to ${newValue} for ${modelNames.length} model(s)\n`,
+      `  ${row.name.padEnd(nameWidth)}  ${keys.map((k) => cell(row, k)).join("  ")}`.trimEnd(),
     );
   }
+  console.log("");
+}
 
-  writeZedSettings(updatedText);
+// OpenRouter prices are per token; "-1" marks variable pricing.
+function perMillionPrice(value: unknown): number | undefined {
+  const num = typeof value === "string" ? Number(value) : value;
+  if (typeof num !== "number" || !Number.isFinite(num) || num < 0) return undefined;
+  return num * 1_000_000;
 }
 
-async function deleteProvider(providerName?: string) {
-  const { text: settingsText, data: settings } = readZedSettings();
-  const providers = settings?.language_models?.openai_compatible || {};
-  const providerNames = Object.keys(providers);
+function isLocalApiUrl(apiUrl: string): boolean {
+  try {
+    const { hostname } = new URL(apiUrl);
+    return ["localhost", "127.0.0.1", "[::1]", "0.0.0.0"].includes(hostname);
+  } catch {
+    return false;
+  }
+}
 
-  if (providerNames.length === 0) {
-    console.log("\n📭 No providers to delete\n");
-    return;
+function pricingFrom(
+  pricing: { prompt?: unknown; completion?: unknown } | null | undefined,
+  source: ModelPricing["source"],
+): ModelPricing | undefined {
+  const prompt = perMillionPrice(pricing?.prompt);
+  const completion = perMillionPrice(pricing?.completion);
+  return prompt !== undefined && completion !== undefined
+    ? { prompt, completion, source }
+    : undefined;
+}
+
+// Provider-reported prices win. Registry matching ignores ":free" suffixes, so
+// a ":free" model is free even when matched to its paid sibling, and a paid
+// model matched to a ":free" entry gets no price. A server on this machine is
+// assumed to cost nothing rather than what OpenRouter charges for a similarly
+// named model.
+function resolveModelPricing(
+  modelId: string,
+  providerModel: Model | undefined,
+  match: OpenRouterModel | null,
+  local: boolean,
+): ModelPricing | undefined {
+  const fromProvider = pricingFrom(providerModel?.pricing, "provider");
+  if (fromProvider) return fromProvider;
+  if (/:free$/i.test(modelId)) return { prompt: 0, completion: 0, source: "free-tier" };
+  if (local) return { prompt: 0, completion: 0, source: "local" };
+  if (!match || /:free$/i.test(match.id)) return undefined;
+  return pricingFrom(match.pricing, "openrouter");
+}
+
+function formatPrice(price: number): string {
+  return price === 0 ? "0" : price < 0.1 ? price.toPrecision(2) : price.toFixed(2);
+}
+
+// "$2.50/$10.00" (input/output per 1M tokens) or "free".
+function formatModelPricing(pricing: ModelPricing): string {
+  if (pricing.prompt === 0 && pricing.completion === 0) return "free";
+  return `$${formatPrice(pricing.prompt)}/$${formatPrice(pricing.completion)}`;
+}
+
+// "$0.15-$2.50 in, $0.60-$10.00 out per 1M (1 free, 2 unknown)"
+function formatPricingSummary(prices: ModelPricing[], modelCount: number): string {
+  const paid = prices.filter((p) => p.prompt > 0 || p.completion > 0);
+  const range = (values: number[]) => {
+    const [min, max] = [Math.min(...values), Math.max(...values)];
+    return min === max ? `$${formatPrice(min)}` : `$${formatPrice(min)}-$${formatPrice(max)}`;
+  };
+  const notes = [
+    paid.length > 0 && prices.length > paid.length ? `${prices.length - paid.length} free` : "",
+    modelCount > prices.length ? `${modelCount - prices.length} unknown` : "",
+  ].filter(Boolean);
+
+  const summary =
+    paid.length > 0
+      ? `${range(paid.map((p) => p.prompt))} in, ${range(paid.map((p) => p.completion))} out per 1M`
+      : "free";
+  return notes.length > 0 ? `${summary} (${notes.join(", ")})` : summary;
+}
+
+// Prices of a provider's configured models. With cacheOnly, only cached model
+// lists are consulted, so listing and editing never wait on the network.
+async function loadConfiguredPricing(
+  ref: ProviderRef,
+  provider: any,
+  options: { cacheOnly: boolean },
+): Promise<Map<string, ModelPricing>> {
+  const family = PROVIDER_FAMILIES[ref.family];
+  const apiUrl = providerApiUrl(ref, provider);
+  const modelNames: string[] = (provider.available_models ?? []).map((m: FamilyModel) => m.name);
+  const pricing = new Map<string, ModelPricing>();
+  if (modelNames.length === 0) return pricing;
+
+  const local = isLocalApiUrl(apiUrl);
+  const apiKey = resolveApiKey(providerEnvVarName(ref));
+  const request = providerRequest(ref, family.modelsEndpoint(apiUrl), apiKey);
+  let fetched: Model[] = [];
+  try {
+    const body = options.cacheOnly
+      ? readCacheEntry(cacheEntryPath(request.url, apiKey, request.headers))?.body
+      : (
+          await fetchJsonWithCache(
+            request.url,
+            request.headers,
+            MODELS_CACHE_TTL_SECONDS,
+            apiKey,
+            { insecure: request.insecure },
+          )
+        ).body;
+    if (body) fetched = family.parseModels(body);
+  } catch {
+    // Unreachable providers fall back to the OpenRouter registry below.
   }
 
-  // Step 1: Select provider (skip if provided)
-  let selectedProvider = providerName;
-
-  if (!selectedProvider) {
-    const result = await select({
-      message: "Select provider to delete:",
-      options: providerNames.map((name) => ({
-        value: name,
-        label: name,
-        hint: `${providers[name].available_models?.length || 0} models`,
-      })),
-    });
+  let openRouterModels: OpenRouterModel[] = [];
+  if (!local) {
+    try {
+      openRouterModels = options.cacheOnly
+        ? (openRouterModelsCache ??
+          readCacheEntry(cacheEntryPath(OPENROUTER_MODELS_URL))?.body?.data ??
+          [])
+        : await fetchOpenRouterModels();
+    } catch {
+      // Prices stay unknown without the registry.
+    }
+  }
 
-    if (typeof result === "symbol") {
-      return;
+  for (const name of modelNames) {
+    const providerModel = fetched.find((m) => m.id === name);
+    const match = pricingFrom(providerModel?.pricing, "provider")
+      ? null
+      : findBestOpenRouterModelMatch(name, openRouterModels);
+    const resolved = resolveModelPricing(name, providerModel, match, local);
+    if (resolved) pricing.set(name, resolved);
+  }
+  return pricing;
+}
+
+const MODEL_SORT_KEYS: ModelSortKey[] = ["name", "context", "price", "newest"];
+const MODEL_QUERY_SYNTAX =
+  "terms, -exclude, /regex/, +tools, +images, ctx>=128k, price<=1, sort:context|price|newest";
+
+function positiveNumber(value: unknown): number | undefined {
+  const num = typeof value === "string" ? Number(value) : value;
+  return typeof num === "number" && Number.isFinite(num) && num > 0 ? num : undefined;
+}
+
+function describeModelListing(
+  model: Model,
+  match: OpenRouterModel | null,
+  local: boolean,
+): ModelListing {
+  const fromProvider = inferCapabilitiesFromProviderModel(model);
+  const fromOR: Partial<ModelCapabilities> = match
+    ? {
+        ...capabilitiesFromSupportedParameters(match.supported_parameters),
+        ...capabilitiesFromArchitecture(match.architecture),
+      }
+    : {};
+  const modalities = model.architecture?.input_modalities ?? match?.architecture?.input_modalities;
+
+  return {
+    id: model.id,
+    contextLength:
+      positiveNumber(model.context_length) ??
+      positiveNumber(model.top_provider?.context_length) ??
+      positiveNumber(match?.context_length) ??
+      positiveNumber(match?.top_provider?.context_length),
+    inputModalities: Array.isArray(modalities) ? modalities.map(String) : undefined,
+    tools: fromProvider.tools ?? fromOR.tools,
+    images: fromProvider.images ?? fromOR.images,
+    pricing: resolveModelPricing(model.id, model, match, local),
+    created: positiveNumber(model.created) ?? positiveNumber(match?.created),
+  };
+}
+
+// Models without their own context length or capability metadata borrow it
+// from the closest OpenRouter registry entry, like inferModelSettings does.
+async function loadModelListings(models: Model[], apiUrl: string): Promise<ModelListing[]> {
+  const needsRegistry = (model: Model) =>
+    positiveNumber(model.context_length) === undefined ||
+    inferCapabilitiesFromProviderModel(model).tools === undefined;
+
+  let openRouterModels: OpenRouterModel[] = [];
+  if (models.some(needsRegistry)) {
+    try {
+      openRouterModels = await fetchOpenRouterModels();
+    } catch {
+      // Without the registry the picker just shows fewer columns.
+    }
+  }
+
+  return models.map((model) =>
+    describeModelListing(
+      model,
+      needsRegistry(model) ? findBestOpenRouterModelMatch(model.id, openRouterModels) : null,
+      isLocalApiUrl(apiUrl),
+    ),
+  );
+}
+
+// "128k", "1m" or a plain number.
+function parseTokenCount(value: string): number | undefined {
+  const match = value.match(/^(\d+(?:\.\d+)?)([km]?)$/i);
+  if (!match) return undefined;
+  const scale = { "": 1, k: 1_000, m: 1_000_000 }[match[2].toLowerCase() as "" | "k" | "m"];
+  return Math.round(Number(match[1]) * scale);
+}
+
+// A filter operator with nothing after it yet, while typing.
+const INCOMPLETE_MODEL_FILTER = /^(\/|ctx(>=?|:)|price(<=?|:)|sort:|\+|-)$/;
+
+// Terms that don't parse as a filter ("pricey", "ctx-large") are plain search text.
+function parseModelQuery(input: string): ModelQuery {
+  const query: ModelQuery = {
+    terms: [],
+    excluded: [],
+    patterns: [],
+    capabilities: [],
+    sort: "name",
+  };
+
+  for (const term of input.toLowerCase().split(/\s+/).filter(Boolean)) {
+    const regex = term.match(/^\/(.+)\/$/);
+    const context = term.match(/^ctx(?:>=|:|>)(.+)$/);
+    const price = term.match(/^price(?:<=|:|<)(.+)$/);
+    const sort = term.match(/^sort:(.+)$/);
+
+    if (regex) {
+      try {
+        query.patterns.push(new RegExp(regex[1], "i"));
+      } catch {
+        query.terms.push(term);
+      }
+    } else if (term === "+tools" || term === "+images") {
+      query.capabilities.push(term.slice(1) as "tools" | "images");
+    } else if (context && parseTokenCount(context[1]) !== undefined) {
+      query.minContext = parseTokenCount(context[1]);
+    } else if (price && Number.isFinite(Number(price[1]))) {
+      query.maxPrice = Number(price[1]);
+    } else if (sort && MODEL_SORT_KEYS.includes(sort[1] as ModelSortKey)) {
+      query.sort = sort[1] as ModelSortKey;
+    } else if (term.startsWith("-") && term.length > 1) {
+      query.excluded.push(term.slice(1));
+    } else if (!INCOMPLETE_MODEL_FILTER.test(term)) {
+      query.terms.push(term);
     }
+  }
+  return query;
+}
 
-    selectedProvider = result as string;
+// Substring first, then the characters in order ("gpt4o" finds "openai/gpt-4o").
+function fuzzyIncludes(text: string, term: string): boolean {
+  if (text.includes(term)) return true;
+  let position = 0;
+  for (const char of term) {
+    position = text.indexOf(char, position) + 1;
+    if (position === 0) return false;
   }
+  return true;
+}
 
-  const provider = providers[selectedProvider];
-  const modelCount = provider.available_models?.length || 0;
+function matchesModelQuery(listing: ModelListing, query: ModelQuery): boolean {
+  const id = listing.id.toLowerCase();
+  if (!query.terms.every((term) => fuzzyIncludes(id, term))) return false;
+  if (query.excluded.some((term) => id.includes(term))) return false;
+  if (!query.patterns.every((pattern) => pattern.test(listing.id))) return false;
+  if (!query.capabilities.every((capability) => listing[capability] === true)) return false;
+  if (query.minContext !== undefined && !((listing.contextLength ?? 0) >= query.minContext)) {
+    return false;
+  }
+  if (query.maxPrice !== undefined && !((listing.pricing?.prompt ?? Infinity) <= query.maxPrice)) {
+    return false;
+  }
+  return true;
+}
 
-  // Step 2: Confirm deletion
-  const confirmed = await confirm({
-    message: `Delete provider "${selectedProvider}" with ${modelCount} model(s)?`,
-    initialValue: false,
+// Unknown values sort last.
+function sortModelListings(listings: ModelListing[], key: ModelSortKey): ModelListing[] {
+  const value = (listing: ModelListing): number | undefined => {
+    if (key === "context") return listing.contextLength && -listing.contextLength;
+    if (key === "price") return listing.pricing?.prompt;
+    if (key === "newest") return listing.created && -listing.created;
+    return undefined;
+  };
+  return [...listings].sort((a, b) => {
+    const [x, y] = [value(a), value(b)];
+    if (x !== y) {
+      if (x === undefined) return 1;
+      if (y === undefined) return -1;
+      return x - y;
+    }
+    return a.id.localeCompare(b.id);
   });
+}
 
-  if (typeof confirmed === "symbol" || !confirmed) {
-    console.log("\n❌ Deletion cancelled\n");
-    return;
-  }
+function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${+(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${Math.round(tokens / 1_000)}k`;
+  return String(tokens);
+}
+
+function formatModelListing(listing: ModelListing, idWidth: number): string {
+  const context = listing.contextLength ? formatTokenCount(listing.contextLength) : "";
+  const modalities =
+    listing.inputModalities?.join("+") ?? (listing.images ? "text+image" : "");
+  const tools = listing.tools ? "tools" : "";
+  const price = listing.pricing ? formatModelPricing(listing.pricing) : "";
+  const columns = `${context.padStart(5)}  ${modalities.padEnd(16)}  ${tools.padEnd(5)}  ${price}`;
+  return `${listing.id.padEnd(idWidth)}  ${pc.dim(columns.trimEnd())}`;
+}
 
-  // Step 3: Delete using jsonc-parser
-  const path = ["language_models", "openai_compatible", selectedProvider];
-  const edits = jsonc.modify(settingsText, path, undefined, {
-    formattingOptions: { insertSpaces: true, tabSize: 2 },
+// Type-ahead multiselect over fetched models; selections survive changing the
+// search, and a sort: term reorders the list.
+async function pickModels(
+  message: string,
+  listings: ModelListing[],
+  options: { initialValues?: string[]; hint?: (listing: ModelListing) => string } = {},
+): Promise<string[] | symbol> {
+  const idWidth = Math.min(48, Math.max(...listings.map((l) => l.id.length)));
+  const toOption = (listing: ModelListing) => ({
+    value: listing.id,
+    label: formatModelListing(listing, idWidth),
+    hint: options.hint?.(listing) ?? deriveDisplayName(listing.id),
+  });
+  const byId = new Map(listings.map((listing) => [listing.id, listing]));
+  const sorted = new Map<ModelSortKey, ReturnType<typeof toOption>[]>();
+
+  console.log(pc.dim(`  Columns: context, input, tools, $ per 1M tokens in/out`));
+  console.log(pc.dim(`  Search: ${MODEL_QUERY_SYNTAX}\n`));
+
+  return autocompleteMultiselect({
+    message,
+    placeholder: "type to search",
+    maxItems: 12,
+    initialValues: options.initialValues,
+    options: function (this: { userInput: string }) {
+      const key = parseModelQuery(this.userInput ?? "").sort;
+      if (!sorted.has(key)) sorted.set(key, sortModelListings(listings, key).map(toOption));
+      return sorted.get(key)!;
+    },
+    filter: (search, option) =>
+      matchesModelQuery(byId.get(option.value)!, parseModelQuery(search)),
   });
+}
 
-  const updatedText = jsonc.applyEdits(settingsText, edits);
-  writeZedSettings(updatedText);
+async function selectCapabilityDetection(
+  ref: ProviderRef,
+  apiUrl: string,
+): Promise<ProbeTarget | null | symbol> {
+  if (runtimeOptions.offline) return null;
+  if (probeableCapabilities(PROVIDER_FAMILIES[ref.family]).length === 0) return null;
+
+  const mode = await select({
+    message: "How should model capabilities be detected?",
+    options: [
+      {
+        value: "infer",
+        label: "Infer from provider metadata",
+        hint: "falls back to OpenRouter, then defaults",
+      },
+      { value: "probe", label: "Probe each model", hint: "sends a few test requests per model" },
+    ],
+  });
 
-  console.log(`\n✅ Successfully deleted provider "${selectedProvider}"\n`);
+  if (typeof mode === "symbol") return mode;
+  return mode === "probe" ? chatProbeTarget(ref, apiUrl, PROBE_TIMEOUT_SECONDS * 1000) : null;
 }
 
-async function renameProvider(oldName: string) {
-  const { text: settingsText, data: settings } = readZedSettings();
-  const providers = settings?.language_models?.openai_compatible || {};
+// A discovered server passes its preset and skips the preset and type prompts.
+async function addProvider(startFrom?: ProviderPreset) {
+  try {
+    await promptAndAddProvider(startFrom);
+  } finally {
+    // A provider that was never written keeps no request config
+    pendingRequestConfigs.clear();
+  }
+}
 
-  // Prompt for new name
-  const newName = await text({
-    message: "New provider name:",
-    placeholder: oldName,
-    validate: (value) => {
-      if (!value) return "Provider name is required";
-      if (value === oldName) return "Name unchanged";
-      if (providers[value]) return "Provider name already exists";
-    },
+async function promptAndAddProvider(startFrom?: ProviderPreset) {
+  const presetId = startFrom ? startFrom.id : await select({
+    message: "Start from:",
+    maxItems: 12,
+    options: [
+      ...listProviderPresets().map((preset) => ({
+        value: preset.id,
+        label: preset.label,
+        hint: preset.source === "local" ? `${preset.api_url} (local preset)` : preset.api_url,
+      })),
+      { value: "", label: "Other", hint: "choose the provider type and URL yourself" },
+    ],
   });
 
-  if (typeof newName === "symbol") {
+  if (typeof presetId === "symbol") {
     return;
   }
 
-  // Confirm rename
-  const confirmed = await confirm({
-    message: `Rename "${oldName}" to "${newName}"?`,
-    initialValue: true,
-  });
+  const preset = startFrom ?? (presetId ? findProviderPreset(presetId)! : null);
+
+  // Prompt for provider family
+  const familyId = preset
+    ? preset.family
+    : await select({
+        message: "Provider type:",
+        options: Object.values(PROVIDER_FAMILIES).map((family) => ({
+          value: family.id,
+          label: family.label,
+          hint: family.multiInstance
+            ? "any number of named providers"
+            : `language_models.${family.id}`,
+        })),
+      });
 
-  if (typeof confirmed === "symbol" || !confirmed) {
-    console.log("\n❌ Rename cancelled\n");
+  if (typeof familyId === "symbol") {
     return;
   }
 
-  // Copy to new key
-  const path = ["language_models", "openai_compatible", newName as string];
-  let updatedText = jsonc.applyEdits(
-    settingsText,
-    jsonc.modify(settingsText, path, providers[oldName], {
-      formattingOptions: { insertSpaces: true, tabSize: 2 },
-    }),
-  );
+  const family = PROVIDER_FAMILIES[familyId as ProviderFamilyId];
+  let providerName: string | symbol = family.id;
 
-  // Delete old key
-  const deletePath = ["language_models", "openai_compatible", oldName];
-  updatedText = jsonc.applyEdits(
-    updatedText,
-    jsonc.modify(updatedText, deletePath, undefined, {
-      formattingOptions: { insertSpaces: true, tabSize: 2 },
-    }),
-  );
+  // Prompt for provider name
+  if (family.multiInstance) {
+    providerName = await text({
+      message: "Provider name:",
+      placeholder: preset?.name ?? "e.g., OpenRouter, Ollama, LocalAI",
+      defaultValue: preset?.name,
+      validate: (value) => {
+        if (!value && preset) return undefined;
+        if (!value) return "Provider name is required";
+      },
+    });
 
-  writeZedSettings(updatedText);
-  console.log(`\n✅ Successfully renamed "${oldName}" to "${newName}"\n`);
-}
+    if (typeof providerName === "symbol") {
+      return;
+    }
+  }
 
-async function modifyProviderMenu() {
+  const ref: ProviderRef = { family: family.id, name: providerName };
+
+  // Check if provider already exists
   const { data: settings } = readZedSettings();
-  const providers = settings?.language_models?.openai_compatible || {};
-  const providerNames = Object.keys(providers);
 
-  if (providerNames.length === 0) {
-    console.log("\n⚠️  No providers configured.\n");
+  if (getConfiguredProvider(settings, ref)) {
+    console.log(
+      `\n⚠️  Provider "${providerLabel(ref)}" already exists. Use "Modify provider" to update it.\n`,
+    );
     return;
   }
 
-  // Step 1: Select provider
-  const providerName = await select({
-    message: "Select provider to modify:",
-    options: providerNames.map((name) => ({
-      value: name,
-      label: name,
-      hint: `${providers[name].available_models?.length || 0} models`,
-    })),
+  // Prompt for API URL
+  const defaultApiUrl = preset?.api_url ?? family.defaultApiUrl;
+  const apiUrl = await text({
+    message: "API URL:",
+    placeholder: defaultApiUrl ?? "e.g., https://api.example.com or http://localhost:11434",
+    defaultValue: defaultApiUrl,
+    validate: (value) => {
+      if (!value && defaultApiUrl) return undefined;
+      if (!value) return "API URL is required";
+      if (!value.startsWith("http://") && !value.startsWith("https://")) {
+        return "URL must start with http:// or https://";
+      }
+    },
   });
 
-  if (typeof providerName === "symbol") {
+  if (typeof apiUrl === "symbol") {
     return;
   }
 
-  // Step 2: Show sub-menu
-  while (true) {
-    console.log("");
-    const action = await select({
-      message: `Modify "${providerName}" - Select action:`,
-      options: [
-        { value: "add-models", label: "Add/Remove models" },
-        { value: "modify-models", label: "Modify model settings" },
-        { value: "rename", label: "Rename provider" },
-        { value: "delete", label: "Delete provider" },
-        { value: "back", label: "Back to main menu" },
-      ],
+  const normalizedApiUrl = family.normalizeApiUrl(apiUrl as string);
+  const modelsEndpoint = family.modelsEndpoint(normalizedApiUrl);
+  const envVarName = providerEnvVarName(ref);
+  const presetKey = resolvePresetApiKey(envVarName, preset);
+  let apiKey = presetKey.apiKey;
+
+  // Azure OpenAI keys go in an api-key header; Bearer is only for Entra tokens
+  const requestConfig = readProviderRequestConfig(ref);
+  if (preset?.request && Object.keys(requestConfig).length === 0) {
+    pendingRequestConfigs.set(providerConfigKey(ref), preset.request);
+  } else if (isAzureDeploymentUrl(normalizedApiUrl) && Object.keys(requestConfig).length === 0) {
+    const useApiKeyHeader = await confirm({
+      message: "Send the API key in an api-key header (Azure OpenAI)?",
+      initialValue: true,
     });
-
-    if (typeof action === "symbol" || action === "back") {
-      break;
-    }
-
-    switch (action) {
-      case "add-models":
-        await addModelsToProvider(providerName as string);
-        break;
-      case "modify-models":
-        await editModelSettings(providerName as string);
-        break;
-      case "rename":
-        await renameProvider(providerName as string);
-        // If renamed, exit sub-menu since provider name changed
-        break;
-      case "delete":
-        await deleteProvider(providerName as string);
-        // If deleted, exit sub-menu
-        break;
+    if (typeof useApiKeyHeader === "symbol") {
+      return;
     }
-
-    // Exit sub-menu after rename or delete
-    if (action === "rename" || action === "delete") {
-      break;
+    if (useApiKeyHeader) {
+      pendingRequestConfigs.set(providerConfigKey(ref), { auth_header: "api-key" });
     }
   }
-}
 
-async function mainMenu() {
-  while (true) {
-    console.log("");
-    const action = await select({
-      message: "What would you like to do?",
-      options: [
-        { value: "add", label: "Add provider" },
-        { value: "modify", label: "Modify provider" },
-        { value: "list", label: "List all providers" },
-        { value: "exit", label: "Exit" },
-      ],
-    });
+  if (apiKey && presetKey.from) {
+    // Zed only reads the provider's own variable
+    console.log(`\n🔑 Using the key in ${presetKey.from}; Zed reads ${envVarName}`);
+    process.env[envVarName] = apiKey;
+    await offerToStoreApiKey(envVarName, apiKey);
+  }
+
+  if (!apiKey) {
+    const apiKeyInput = await password({
+      message: `API key for ${providerName} (optional, press Enter to skip):`,
+      validate: (value) => {
+        // Allow empty (optional)
+        if (!value) return undefined;
+        // Basic validation: no whitespace
+        if (/\s/.test(value)) return "API key should not contain spaces";
+      },
+    });
+
+    if (typeof apiKeyInput !== "symbol" && apiKeyInput) {
+      apiKey = apiKeyInput as string;
+      // Load into current process for immediate use
+      process.env[envVarName] = apiKey;
+      await offerToStoreApiKey(envVarName, apiKey);
+    }
+  }
+
+  console.log(`\n📝 Provider: ${providerLabel(ref)}`);
+  console.log(`🔗 API URL: ${normalizedApiUrl}`);
+  console.log(`🔑 API Key: ${apiKey ? "✓ Set" : "✗ Not set"}\n`);
+
+  // Fetch models
+  const models = await fetchModels(modelsEndpoint, apiKey, ref);
+  console.log(`\n✓ Found ${models.length} models\n`);
+
+  const recommended = preset ? recommendedModelIds(preset, models) : { served: [], missing: [] };
+
+  // Select models
+  const selectionMode = await select({
+    message: "How do you want to select models?",
+    options: [
+      ...(recommended.served.length > 0
+        ? [
+            {
+              value: "recommended",
+              label: `Add the recommended models (${recommended.served.length})`,
+              hint: recommended.served.join(", "),
+            },
+          ]
+        : []),
+      {
+        value: "interactive",
+        label: "Search and pick models",
+        hint: "type-ahead, with context, modalities, tools and price",
+      },
+      { value: "filter", label: "Add every model matching a search" },
+      { value: "all", label: "Add all models" },
+    ],
+  });
+
+  if (typeof selectionMode === "symbol") {
+    return;
+  }
+
+  let selectedModelIds: string[];
+
+  if (selectionMode === "recommended") {
+    selectedModelIds = recommended.served;
+    if (recommended.missing.length > 0) {
+      console.log(`\n⚠️  Not served by this endpoint: ${recommended.missing.join(", ")}`);
+    }
+  } else if (selectionMode === "all") {
+    selectedModelIds = models.map((m) => m.id);
+    console.log(`\n✓ Selected all ${selectedModelIds.length} models`);
+  } else if (selectionMode === "filter") {
+    const filterText = await text({
+      message: "Search models:",
+      placeholder: MODEL_QUERY_SYNTAX,
+      validate: (value) => {
+        if (!value) return "Search text is required";
+      },
+    });
+
+    if (typeof filterText === "symbol") {
+      return;
+    }
+
+    const query = parseModelQuery(filterText as string);
+    selectedModelIds = (await loadModelListings(models, normalizedApiUrl))
+      .filter((listing) => matchesModelQuery(listing, query))
+      .map((listing) => listing.id);
+
+    if (selectedModelIds.length === 0) {
+      console.log(`\n⚠️  No models match "${filterText}"\n`);
+      return;
+    }
+  } else {
+    const selected = await pickModels(
+      "Select models to add:",
+      await loadModelListings(models, normalizedApiUrl),
+    );
+
+    if (typeof selected === "symbol") {
+      return;
+    }
+
+    selectedModelIds = selected;
+  }
+
+  if (selectedModelIds.length === 0) {
+    console.log("⚠️  No models selected");
+    return;
+  }
+
+  console.log(`\n✓ Selected ${selectedModelIds.length} models`);
+
+  // Ask for default max_tokens
+  const maxTokensInput = await text({
+    message: "Default max_tokens for models:",
+    placeholder: "8192",
+    defaultValue: "8192",
+    validate: (value) => {
+      const num = parseInt(value, 10);
+      if (isNaN(num) || num <= 0) return "Must be a positive number";
+    },
+  });
+
+  if (typeof maxTokensInput === "symbol") {
+    return;
+  }
+
+  const defaultMaxTokens = parseInt(maxTokensInput as string, 10) || 8192;
+
+  const probe = await selectCapabilityDetection(ref, normalizedApiUrl);
+  if (typeof probe === "symbol") {
+    return;
+  }
+
+  const availableModels = applyPresetOverrides(
+    family,
+    await buildAvailableModels(selectedModelIds, models, defaultMaxTokens, family, probe),
+    preset,
+  );
+
+  // Read settings again for writing
+  const { text: settingsText } = readZedSettings();
+
+  // Update settings using jsonc-parser to preserve formatting
+  const updatedText = setProviderInSettingsText(settingsText, ref, {
+    api_url: normalizedApiUrl,
+    available_models: availableModels,
+  });
+
+  // Write back
+  if (!(await confirmAndWriteSettings(settingsText, updatedText))) {
+    return;
+  }
+  savePendingRequestConfig(ref);
+
+  console.log(
+    `\n✅ Successfully configured provider "${providerLabel(ref)}" with ${availableModels.length} models!`,
+  );
+
+  if (!apiKey) {
+    console.log(`\n💡 To use this provider, store and export its key:\n`);
+    console.log(`   zed-api keys set ${ref.name} && zed-api shell add ${ref.name}\n`);
+  }
+}
+
+async function addModelsToProvider(ref: ProviderRef) {
+  const { text: settingsText, data: settings } = readZedSettings();
+  const provider = getConfiguredProvider(settings, ref);
+  const family = PROVIDER_FAMILIES[ref.family];
+
+  if (!provider) {
+    console.log(`\n⚠️  Provider "${providerLabel(ref)}" not found\n`);
+    return;
+  }
+
+  // Get existing models
+  const existingModels: FamilyModel[] = provider.available_models || [];
+  const existingModelNames = new Set<string>(
+    existingModels.map((m) => m.name),
+  );
+
+  // Fetch models from API
+  const modelsEndpoint = family.modelsEndpoint(providerApiUrl(ref, provider));
+  const envVarName = providerEnvVarName(ref);
+  const apiKey = resolveApiKey(envVarName);
+
+  const fetchedModels = await fetchModels(modelsEndpoint, apiKey, ref);
+  console.log(`\n✓ Found ${fetchedModels.length} models from API\n`);
+
+  // Pre-select existing models
+  const selected = await pickModels(
+    "Select models (existing models are pre-selected):",
+    await loadModelListings(fetchedModels, providerApiUrl(ref, provider)),
+    {
+      initialValues: fetchedModels
+        .filter((m) => existingModelNames.has(m.id))
+        .map((m) => m.id),
+      hint: (listing) =>
+        existingModelNames.has(listing.id) ? "✓ Currently active" : deriveDisplayName(listing.id),
+    },
+  );
+
+  if (typeof selected === "symbol") {
+    return;
+  }
+
+  const selectedModelIds = selected;
+  const selectedSet = new Set(selectedModelIds);
+
+  const additions = selectedModelIds.filter(
+    (id) => !existingModelNames.has(id),
+  );
+
+  // Models the API no longer lists were not offered, so they are kept
+  const modelsInView = new Set(fetchedModels.map((m) => m.id));
+  const removals = Array.from(existingModelNames).filter(
+    (id: string) => modelsInView.has(id) && !selectedSet.has(id),
+  );
+
+  // Check if no changes
+  if (additions.length === 0 && removals.length === 0) {
+    console.log("\n⚠️  No changes made\n");
+    return;
+  }
+
+  // Show confirmation
+  console.log("\n📝 Changes:");
+  if (additions.length > 0) {
+    console.log(`\n  ➕ Adding ${additions.length} model(s):`);
+    additions.forEach((id) => console.log(`     - ${id}`));
+  }
+  if (removals.length > 0) {
+    console.log(`\n  ➖ Removing ${removals.length} model(s):`);
+    removals.forEach((id) => console.log(`     - ${id}`));
+  }
+  console.log("");
+
+  // Ask for default max_tokens and capability detection for new models (only if adding)
+  let defaultMaxTokens = 8192;
+  let newModels: FamilyModel[] = [];
+  if (additions.length > 0) {
+    const maxTokensInput = await text({
+      message: "Default max_tokens for new models:",
+      placeholder: "8192",
+      defaultValue: "8192",
+      validate: (value) => {
+        const num = parseInt(value, 10);
+        if (isNaN(num) || num <= 0) return "Must be a positive number";
+      },
+    });
+
+    if (typeof maxTokensInput === "symbol") {
+      return;
+    }
+
+    defaultMaxTokens = parseInt(maxTokensInput as string, 10) || 8192;
+
+    const probe = await selectCapabilityDetection(ref, providerApiUrl(ref, provider));
+    if (typeof probe === "symbol") {
+      return;
+    }
+
+    newModels = await buildAvailableModels(
+      additions,
+      fetchedModels,
+      defaultMaxTokens,
+      family,
+      probe,
+    );
+  }
+
+  // Existing entries are kept whole and in their configured order, custom
+  // fields included; new models are appended.
+  const removalsSet = new Set(removals);
+  const availableModels: FamilyModel[] = [
+    ...existingModels.filter((m) => !removalsSet.has(m.name)),
+    ...newModels,
+  ];
+
+  // Update settings
+  const updatedText = setProviderModelsInSettingsText(
+    settingsText,
+    ref,
+    availableModels,
+  );
+  if (!(await confirmAndWriteSettings(settingsText, updatedText))) {
+    return;
+  }
+
+  console.log(`\n✅ Successfully updated provider "${providerLabel(ref)}"`);
+  if (additions.length > 0) {
+    console.log(`   ➕ Added ${additions.length} model(s)`);
+  }
+  if (removals.length > 0) {
+    console.log(`   ➖ Removed ${removals.length} model(s)`);
+  }
+  console.log("");
+}
+
+async function selectConfiguredProvider(
+  settings: any,
+  message: string,
+): Promise<ProviderRef | null> {
+  const configured = listConfiguredProviders(settings);
+  const result = await select({
+    message,
+    options: configured.map(({ ref, provider }, index) => ({
+      value: index,
+      label: providerLabel(ref),
+      hint: `${provider.available_models?.length || 0} models`,
+    })),
+  });
+
+  if (typeof result === "symbol") {
+    return null;
+  }
+
+  return configured[result as number].ref;
+}
+
+async function listProviders() {
+  const { data: settings } = readZedSettings();
+  const configured = listConfiguredProviders(settings);
+
+  if (configured.length === 0) {
+    console.log("\n📭 No providers configured\n");
+    console.log("💡 Use 'Add provider' to add your first provider\n");
+    return;
+  }
+
+  console.log(`\n📋 Configured Providers (${configured.length}):\n`);
+  console.log("─".repeat(80));
+
+  for (const { ref, provider } of configured) {
+    const modelCount = provider.available_models?.length || 0;
+    console.log(`\n🔧 ${providerLabel(ref)}`);
+    console.log(`   URL: ${providerApiUrl(ref, provider)}`);
+    console.log(`   Models: ${modelCount}`);
+    const pricing = await loadConfiguredPricing(ref, provider, { cacheOnly: true });
+    if (pricing.size > 0) {
+      console.log(`   Pricing: ${formatPricingSummary([...pricing.values()], modelCount)}`);
+    }
+  }
+
+  console.log("\n" + "─".repeat(80) + "\n");
+}
+
+const CAPABILITY_LABELS: Record<keyof ModelCapabilities, string> = {
+  tools: "Tools capability",
+  images: "Images capability",
+  parallel_tool_calls: "Parallel tool calls capability",
+  prompt_cache_key: "Prompt cache key capability",
+};
+
+const TOKEN_FIELD_LABELS: Record<"max_tokens" | OutputTokenField, string> = {
+  max_tokens: "Max tokens",
+  max_output_tokens: "Max output tokens",
+  max_completion_tokens: "Max completion tokens",
+};
+
+async function editModelSettings(providerRef?: ProviderRef) {
+  const { text: settingsText, data: settings } = readZedSettings();
+
+  if (listConfiguredProviders(settings).length === 0) {
+    console.log("\n⚠️  No providers configured. Create a provider first.\n");
+    return;
+  }
+
+  // Step 1: Select provider (skip if provided)
+  const ref =
+    providerRef ?? (await selectConfiguredProvider(settings, "Select provider to edit:"));
+
+  if (!ref) {
+    return;
+  }
+
+  const family = PROVIDER_FAMILIES[ref.family];
+  const provider = getConfiguredProvider(settings, ref);
+  const models: FamilyModel[] = provider?.available_models || [];
+
+  if (models.length === 0) {
+    console.log("\n⚠️  No models in this provider.\n");
+    return;
+  }
+
+  // Step 2: Select models to edit
+  const pricing = await loadConfiguredPricing(ref, provider, { cacheOnly: true });
+  const selectedModels = await multiselect({
+    message: "Select models to edit (space to toggle, enter to confirm):",
+    options: models.map((m) => {
+      const price = pricing.get(m.name);
+      return {
+        value: m.name,
+        label: m.display_name ?? m.name,
+        hint: [
+          `${m.max_tokens} tokens`,
+          m.max_output_tokens ? `${m.max_output_tokens} output` : "",
+          price ? `${formatModelPricing(price)} per 1M` : "",
+        ]
+          .filter(Boolean)
+          .join(", "),
+      };
+    }),
+    required: true,
+  });
+
+  if (typeof selectedModels === "symbol") {
+    return;
+  }
+
+  const modelNames = selectedModels as string[];
+
+  if (modelNames.length === 0) {
+    console.log("\n⚠️  No models selected.\n");
+    return;
+  }
+
+  // Step 3: Choose what to edit (only the capabilities this family supports)
+  const tokenFields: ("max_tokens" | OutputTokenField)[] = [
+    "max_tokens",
+    ...family.outputTokenFields,
+  ];
+  const editAction = await select({
+    message: "What do you want to edit?",
+    options: [
+      { value: "form", label: "All fields", hint: "one form per model, custom fields included" },
+      { value: "display-names", label: "Display names", hint: "rename with a template" },
+      ...tokenFields.map((field) => ({
+        value: field,
+        label: TOKEN_FIELD_LABELS[field],
+        hint:
+          field === "max_tokens"
+            ? "context window"
+            : field === "max_output_tokens"
+              ? "most tokens the model can generate"
+              : "output limit sent with each request",
+      })),
+      ...Object.keys(family.capabilityPaths).map((key) => ({
+        value: key,
+        label: CAPABILITY_LABELS[key as keyof ModelCapabilities],
+      })),
+    ],
+  });
+
+  if (typeof editAction === "symbol") {
+    return;
+  }
+
+  if (editAction === "form") {
+    await editModelForms(ref, settingsText, models, modelNames);
+    return;
+  }
+  if (editAction === "display-names") {
+    await renameModelDisplayNames(ref, settingsText, models, modelNames);
+    return;
+  }
+
+  let updatedText = settingsText;
+
+  // Step 4: Apply changes
+  if (tokenFields.includes(editAction as "max_tokens" | OutputTokenField)) {
+    const field = editAction as "max_tokens" | OutputTokenField;
+    // Output limits are optional in Zed; clearing one removes the field.
+    const optional = field !== "max_tokens";
+    const current = models.find((m) => m.name === modelNames[0])?.[field];
+    const newTokens = await text({
+      message: optional ? `New ${field} value (empty to remove):` : `New ${field} value:`,
+      placeholder: current !== undefined ? String(current) : "8192",
+      validate: (value) => {
+        if (!value && optional) return undefined;
+        const num = parseInt(value ?? "", 10);
+        if (isNaN(num) || num <= 0) return "Must be a positive number";
+      },
+    });
+
+    if (typeof newTokens === "symbol") {
+      return;
+    }
+
+    const tokenValue = newTokens ? parseInt(newTokens, 10) : undefined;
+
+    for (const modelName of modelNames) {
+      const modelIndex = models.findIndex((m) => m.name === modelName);
+      const path = [
+        ...providerSettingsPath(ref),
+        "available_models",
+        modelIndex,
+        field,
+      ];
+
+      updatedText = modifySettingsText(updatedText, path, tokenValue);
+    }
+
+    if (!(await confirmAndWriteSettings(settingsText, updatedText))) {
+      return;
+    }
+
+    console.log(
+      tokenValue === undefined
+        ? `\n✅ Removed ${field} from ${modelNames.length} model(s)\n`
+        : `\n✅ Updated ${field} to ${tokenValue} for ${modelNames.length} model(s)\n`,
+    );
+  } else {
+    // Capability toggle
+    const capability = editAction as keyof ModelCapabilities;
+    const firstModel = models.find((m) => m.name === modelNames[0]);
+    const currentValue = firstModel
+      ? readFamilyCapability(family, firstModel, capability)
+      : undefined;
+
+    const newValue = await confirm({
+      message: `Enable ${editAction}?`,
+      initialValue: currentValue ?? false,
+    });
+
+    if (typeof newValue === "symbol") {
+      return;
+    }
+
+    for (const modelName of modelNames) {
+      const modelIndex = models.findIndex((m) => m.name === modelName);
+      const path = [
+        ...providerSettingsPath(ref),
+        "available_models",
+        modelIndex,
+        ...family.capabilityPaths[capability]!,
+      ];
+
+      updatedText = modifySettingsText(updatedText, path, newValue);
+    }
+
+    if (!(await confirmAndWriteSettings(settingsText, updatedText))) {
+      return;
+    }
+
+    console.log(
+      `\n✅ Set ${editAction} to ${newValue} for ${modelNames.length} model(s)\n`,
+    );
+  }
+}
+
+function parseCustomFields(
+  family: ProviderFamily,
+  value: string,
+): Record<string, any> | string {
+  if (!value.trim()) return {};
+  let fields: any;
+  try {
+    fields = JSON.parse(value);
+  } catch {
+    return "Must be valid JSON";
+  }
+  if (!fields || typeof fields !== "object" || Array.isArray(fields)) {
+    return "Must be a JSON object";
+  }
+  const managed = managedModelKeys(family);
+  const clash = Object.keys(fields).find((key) => managed.has(key));
+  if (clash) return `"${clash}" has its own prompt; leave it out of the custom fields`;
+  return fields;
+}
+
+// Asks for every field of one model, starting from its current values.
+async function promptModelForm(
+  ref: ProviderRef,
+  model: FamilyModel,
+): Promise<FamilyModel | symbol> {
+  const family = PROVIDER_FAMILIES[ref.family];
+  const next: FamilyModel = structuredClone(model);
+
+  const displayName = await text({
+    message: "Display name (empty to use the model ID):",
+    placeholder: deriveDisplayName(model.name),
+    initialValue: model.display_name ?? "",
+  });
+  if (typeof displayName === "symbol") return displayName;
+  next.display_name = displayName.trim() || undefined;
+
+  for (const field of ["max_tokens", ...family.outputTokenFields] as const) {
+    // Output limits are optional in Zed; clearing one removes the field.
+    const optional = field !== "max_tokens";
+    const value = await text({
+      message: optional ? `${TOKEN_FIELD_LABELS[field]} (empty to remove):` : `${TOKEN_FIELD_LABELS[field]}:`,
+      placeholder: optional ? "unset" : "8192",
+      initialValue: model[field] !== undefined ? String(model[field]) : "",
+      validate: (value) => {
+        if (!value && optional) return undefined;
+        const num = parseInt(value ?? "", 10);
+        if (isNaN(num) || num <= 0) return "Must be a positive number";
+      },
+    });
+    if (typeof value === "symbol") return value;
+    next[field] = value ? parseInt(value, 10) : undefined;
+  }
+
+  const capabilityKeys = Object.keys(family.capabilityPaths) as (keyof ModelCapabilities)[];
+  if (capabilityKeys.length > 0) {
+    const enabled = await multiselect({
+      message: "Capabilities (space to toggle, enter to confirm):",
+      options: capabilityKeys.map((key) => ({ value: key, label: CAPABILITY_LABELS[key] })),
+      initialValues: capabilityKeys.filter((key) => readFamilyCapability(family, model, key)),
+      required: false,
+    });
+    if (typeof enabled === "symbol") return enabled;
+    for (const key of capabilityKeys) {
+      writeFamilyCapability(family, next, key, enabled.includes(key));
+    }
+  }
+
+  const currentCustom = customModelFields(family, model);
+  const customInput = await text({
+    message: "Custom fields (JSON object, empty for none):",
+    placeholder: '{"mode": {"type": "thinking"}}',
+    initialValue: Object.keys(currentCustom).length > 0 ? JSON.stringify(currentCustom) : "",
+    validate: (value) => {
+      const parsed = parseCustomFields(family, value ?? "");
+      return typeof parsed === "string" ? parsed : undefined;
+    },
+  });
+  if (typeof customInput === "symbol") return customInput;
+  const custom = parseCustomFields(family, customInput) as Record<string, any>;
+  for (const key of Object.keys(currentCustom)) delete next[key];
+  Object.assign(next, custom);
+
+  // Undefined fields are removed from the settings file but must not linger here.
+  for (const key of Object.keys(next)) {
+    if (next[key] === undefined) delete next[key];
+  }
+  return next;
+}
+
+async function editModelForms(
+  ref: ProviderRef,
+  settingsText: string,
+  models: FamilyModel[],
+  modelNames: string[],
+) {
+  const family = PROVIDER_FAMILIES[ref.family];
+  let updatedText = settingsText;
+  const updated: { name: string; changes: string[] }[] = [];
+
+  for (const [position, modelName] of modelNames.entries()) {
+    const index = models.findIndex((m) => m.name === modelName);
+    const model = models[index];
+    console.log(`\n✏️  ${model.name} (${position + 1}/${modelNames.length})`);
+    const next = await promptModelForm(ref, model);
+    if (typeof next === "symbol") {
+      return;
+    }
+    updatedText = updateModelInSettingsText(updatedText, ref, index, model, next);
+
+    const changes = describeModelChanges(family, model, next);
+    const before = customModelFields(family, model);
+    const after = customModelFields(family, next);
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        changes.push(`${key}: ${JSON.stringify(before[key]) ?? "unset"} → ${JSON.stringify(after[key]) ?? "unset"}`);
+      }
+    }
+    if (changes.length > 0) updated.push({ name: model.name, changes });
+  }
+
+  if (updated.length === 0) {
+    console.log("\n⚠️  No changes made\n");
+    return;
+  }
+
+  console.log("\n📝 Changes:");
+  for (const { name, changes } of updated) {
+    console.log(`\n  ✏️  ${name}`);
+    changes.forEach((change) => console.log(`     - ${change}`));
+  }
+  console.log("");
+
+  if (!(await confirmAndWriteSettings(settingsText, updatedText))) {
+    return;
+  }
+  console.log(`\n✅ Updated ${updated.length} model(s)\n`);
+}
+
+async function renameModelDisplayNames(
+  ref: ProviderRef,
+  settingsText: string,
+  models: FamilyModel[],
+  modelNames: string[],
+) {
+  const sample = models.find((m) => m.name === modelNames[0])!;
+  const choice = await select({
+    message: "How should the models be named?",
+    options: [
+      ...DISPLAY_NAME_PRESETS.map(({ template, label }) => ({
+        value: template,
+        label,
+        hint: `${template} → ${applyDisplayNameTemplate(template, sample, ref)}`,
+      })),
+      { value: "custom", label: "Custom template", hint: DISPLAY_NAME_PLACEHOLDERS.map((p) => `{${p}}`).join(" ") },
+    ],
+  });
+  if (typeof choice === "symbol") {
+    return;
+  }
+
+  let template = choice;
+  if (choice === "custom") {
+    const custom = await text({
+      message: "Display name template:",
+      placeholder: "{suffix} ({provider})",
+      validate: (value) => validateDisplayNameTemplate(value ?? ""),
+    });
+    if (typeof custom === "symbol") {
+      return;
+    }
+    template = custom;
+  }
+
+  let updatedText = settingsText;
+  const renamed: string[] = [];
+  for (const modelName of modelNames) {
+    const index = models.findIndex((m) => m.name === modelName);
+    const model = models[index];
+    const displayName = applyDisplayNameTemplate(template, model, ref) || model.name;
+    if (displayName === model.display_name) continue;
+    renamed.push(`${model.display_name ?? model.name} → ${displayName}`);
+    updatedText = modifySettingsText(
+      updatedText,
+      [...providerSettingsPath(ref), "available_models", index, "display_name"],
+      displayName,
+    );
+  }
+
+  if (renamed.length === 0) {
+    console.log("\n⚠️  No changes made\n");
+    return;
+  }
+
+  console.log(`\n📝 Renaming ${renamed.length} model(s):`);
+  renamed.forEach((line) => console.log(`     - ${line}`));
+  console.log("");
+
+  if (!(await confirmAndWriteSettings(settingsText, updatedText))) {
+    return;
+  }
+  console.log(`\n✅ Renamed ${renamed.length} model(s)\n`);
+}
+
+function moveModel(models: FamilyModel[], from: number, to: number): FamilyModel[] {
+  const result = [...models];
+  const [model] = result.splice(from, 1);
+  result.splice(Math.max(0, Math.min(to, result.length)), 0, model);
+  return result;
+}
+
+async function reorderModels(ref: ProviderRef) {
+  const { text: settingsText, data: settings } = readZedSettings();
+  const provider = getConfiguredProvider(settings, ref);
+  const models: FamilyModel[] = provider?.available_models || [];
+
+  if (models.length < 2) {
+    console.log("\n⚠️  Nothing to reorder.\n");
+    return;
+  }
+
+  // Zed lists the models in this order, so moving one is a pick-then-place loop.
+  let order = models;
+  let cursor = 0;
+  while (true) {
+    const picked = await select<number | "done">({
+      message: "Select a model to move:",
+      options: [
+        ...order.map((m, index) => ({
+          value: index,
+          label: `${index + 1}. ${m.display_name ?? m.name}`,
+          hint: m.display_name && m.display_name !== m.name ? m.name : undefined,
+        })),
+        { value: "done", label: "Done" },
+      ],
+      initialValue: cursor,
+    });
+    if (typeof picked === "symbol") {
+      return;
+    }
+    if (picked === "done") {
+      break;
+    }
+
+    const moves = [
+      { value: picked - 1, label: "Up", enabled: picked > 0 },
+      { value: picked + 1, label: "Down", enabled: picked < order.length - 1 },
+      { value: 0, label: "To the top", enabled: picked > 0 },
+      { value: order.length - 1, label: "To the bottom", enabled: picked < order.length - 1 },
+    ].filter((move) => move.enabled);
+    const target = await select({
+      message: `Move "${order[picked].display_name ?? order[picked].name}":`,
+      options: moves.map(({ value, label }) => ({ value, label })),
+    });
+    if (typeof target === "symbol") {
+      return;
+    }
+    order = moveModel(order, picked, target);
+    cursor = target;
+  }
+
+  if (order.every((m, index) => m === models[index])) {
+    console.log("\n⚠️  No changes made\n");
+    return;
+  }
+
+  const updatedText = setProviderModelsInSettingsText(settingsText, ref, order);
+  if (!(await confirmAndWriteSettings(settingsText, updatedText))) {
+    return;
+  }
+  console.log(`\n✅ Reordered models of "${providerLabel(ref)}"\n`);
+}
+
+// Points a configured entry at another served model. Its settings are kept;
+// a display name that was derived from the old ID follows the new one.
+function remapModel(model: FamilyModel, targetId: string): FamilyModel {
+  const next: FamilyModel = structuredClone(model);
+  next.name = targetId;
+  if (model.display_name === model.name || model.display_name === deriveDisplayName(model.name)) {
+    next.display_name = deriveDisplayName(targetId);
+  }
+  return next;
+}
+
+function printUrlChange(
+  apiUrl: { from: string; to: string },
+  changes: { mapped: string[]; dropped: string[]; kept: string[] },
+) {
+  console.log("\n📝 Changes:");
+  console.log(`\n  🔗 api_url: ${apiUrl.from} → ${apiUrl.to}`);
+  if (changes.mapped.length > 0) {
+    console.log(`\n  🔀 Mapping ${changes.mapped.length} model(s):`);
+    changes.mapped.forEach((line) => console.log(`     - ${line}`));
+  }
+  if (changes.dropped.length > 0) {
+    console.log(`\n  ➖ Dropping ${changes.dropped.length} model(s):`);
+    changes.dropped.forEach((id) => console.log(`     - ${id}`));
+  }
+  if (changes.kept.length > 0) {
+    console.log(`\n  ⚠️  Keeping ${changes.kept.length} model(s) the new endpoint does not list:`);
+    changes.kept.forEach((id) => console.log(`     - ${id}`));
+  }
+  console.log("");
+}
+
+async function changeProviderUrl(ref: ProviderRef) {
+  const { text: settingsText, data: settings } = readZedSettings();
+  const provider = getConfiguredProvider(settings, ref);
+  const family = PROVIDER_FAMILIES[ref.family];
+  const currentUrl = providerApiUrl(ref, provider);
+
+  const input = await text({
+    message: "New API URL:",
+    placeholder: currentUrl,
+    initialValue: currentUrl,
+    validate: (value) => {
+      if (!value) return "API URL is required";
+      if (!value.startsWith("http://") && !value.startsWith("https://")) {
+        return "URL must start with http:// or https://";
+      }
+      if (family.normalizeApiUrl(value) === currentUrl) return "URL unchanged";
+    },
+  });
+
+  if (typeof input === "symbol") {
+    return;
+  }
+
+  // Validate the endpoint before touching the settings
+  const apiUrl = family.normalizeApiUrl(input);
+  const apiKey = resolveApiKey(providerEnvVarName(ref));
+  const fetchedModels = await fetchModels(family.modelsEndpoint(apiUrl), apiKey, ref);
+
+  const models: FamilyModel[] = provider.available_models || [];
+  const servedIds = new Set(fetchedModels.map((m) => m.id));
+  const missingCount = models.filter((m) => !servedIds.has(m.name)).length;
+  console.log(
+    `\n✓ ${models.length - missingCount} of ${models.length} configured model(s) are served by ${apiUrl}\n`,
+  );
+
+  // Each served model can back only one entry
+  const taken = new Set(models.filter((m) => servedIds.has(m.name)).map((m) => m.name));
+  const changes = { mapped: [] as string[], dropped: [] as string[], kept: [] as string[] };
+  const availableModels: FamilyModel[] = [];
+  for (const model of models) {
+    if (servedIds.has(model.name)) {
+      availableModels.push(model);
+      continue;
+    }
+
+    const unclaimed = fetchedModels.filter((m) => !taken.has(m.id));
+    const candidates = rankModelMatches(model.name, unclaimed).slice(0, 3);
+    const choice = await select({
+      message: `"${model.name}" is not served by the new endpoint:`,
+      options: [
+        ...candidates.map((candidate, index) => ({
+          value: `map:${candidate.id}`,
+          label: `Map to ${candidate.id}`,
+          hint: index === 0 ? "closest match" : undefined,
+        })),
+        ...(unclaimed.length > 0 ? [{ value: "pick", label: "Map to another model..." }] : []),
+        { value: "keep", label: "Keep it" },
+        { value: "drop", label: "Drop it" },
+      ],
+      initialValue: candidates.length > 0 ? `map:${candidates[0].id}` : "keep",
+    });
+
+    if (typeof choice === "symbol") {
+      return;
+    }
+
+    let targetId: string | undefined;
+    if (choice === "pick") {
+      const picked = await autocomplete({
+        message: `Map "${model.name}" to:`,
+        options: unclaimed.map((m) => ({ value: m.id, label: m.id })),
+        placeholder: "Type to search...",
+      });
+      if (typeof picked === "symbol") {
+        return;
+      }
+      targetId = picked;
+    } else if (choice.startsWith("map:")) {
+      targetId = choice.slice("map:".length);
+    }
+
+    if (targetId) {
+      taken.add(targetId);
+      availableModels.push(remapModel(model, targetId));
+      changes.mapped.push(`${model.name} → ${targetId}`);
+    } else if (choice === "drop") {
+      changes.dropped.push(model.name);
+    } else {
+      availableModels.push(model);
+      changes.kept.push(model.name);
+    }
+  }
+
+  printUrlChange({ from: currentUrl, to: apiUrl }, changes);
+
+  const updatedText = setProviderInSettingsText(settingsText, ref, {
+    api_url: apiUrl,
+    available_models: availableModels,
+  });
+  if (!(await confirmAndWriteSettings(settingsText, updatedText))) {
+    return;
+  }
+  console.log(`\n✅ "${providerLabel(ref)}" now uses ${apiUrl}\n`);
+}
+
+function parseJsonStringMap(value: string): Record<string, string> | string {
+  if (!value.trim()) return {};
+  let parsed: any;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return "Must be valid JSON";
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return "Must be a JSON object";
+  }
+  if (Object.values(parsed).some((v) => typeof v !== "string")) {
+    return "Values must be strings";
+  }
+  return parsed;
+}
+
+async function editProviderRequestSettings(ref: ProviderRef) {
+  const family = PROVIDER_FAMILIES[ref.family];
+  const current = readProviderRequestConfig(ref);
+  const lines = describeProviderRequestConfig(current);
+  console.log(`\n🔐 Request settings for "${providerLabel(ref)}":`);
+  if (lines.length === 0) console.log("   (family defaults)");
+  lines.forEach((line) => console.log(`   ${line}`));
+  console.log("");
+
+  const defaultAuth = Object.entries(family.authHeaders("<key>"))
+    .map(([name, value]) => `${name}: ${value}`)
+    .join(", ");
+  const auth = configuredAuthHeader(current);
+  const method = await select({
+    message: "How is the API key sent?",
+    options: [
+      { value: "default", label: "Family default", hint: defaultAuth },
+      { value: "api-key", label: "api-key header", hint: "Azure OpenAI" },
+      { value: "x-api-key", label: "x-api-key header" },
+      { value: "header", label: "Custom header..." },
+      { value: "query", label: "Query parameter..." },
+    ],
+    initialValue: current.auth_query_param
+      ? "query"
+      : !auth
+        ? "default"
+        : auth.header === "api-key" && !auth.scheme
+          ? "api-key"
+          : auth.header === "x-api-key" && !auth.scheme
+            ? "x-api-key"
+            : "header",
+  });
+  if (typeof method === "symbol") {
+    return;
+  }
+
+  const next: ProviderRequestConfig = {};
+  if (method === "api-key" || method === "x-api-key") {
+    next.auth_header = method;
+  } else if (method === "header") {
+    const header = await text({
+      message: "Header name:",
+      placeholder: "Authorization",
+      initialValue: auth?.header ?? "",
+      validate: (value) => (value?.trim() ? undefined : "Header name is required"),
+    });
+    if (typeof header === "symbol") {
+      return;
+    }
+    const scheme = await text({
+      message: "Scheme before the key (empty for the bare key):",
+      placeholder: "Bearer",
+      initialValue: auth?.scheme ?? "",
+    });
+    if (typeof scheme === "symbol") {
+      return;
+    }
+    next.auth_header = header.trim();
+    next.auth_scheme = scheme.trim();
+  } else if (method === "query") {
+    const param = await text({
+      message: "Query parameter name:",
+      placeholder: "key",
+      initialValue: current.auth_query_param ?? "",
+      validate: (value) => (value?.trim() ? undefined : "Parameter name is required"),
+    });
+    if (typeof param === "symbol") {
+      return;
+    }
+    next.auth_query_param = param.trim();
+  }
+
+  for (const [field, message, placeholder] of [
+    ["headers", "Extra headers (JSON object, empty for none):", '{"OpenAI-Organization": "org-..."}'],
+    ["query", "Extra query parameters (JSON object, empty for none):", '{"api-version": "2024-10-21"}'],
+  ] as const) {
+    const input = await text({
+      message,
+      placeholder,
+      initialValue: current[field] ? JSON.stringify(current[field]) : "",
+      validate: (value) => {
+        const parsed = parseJsonStringMap(value ?? "");
+        return typeof parsed === "string" ? parsed : undefined;
+      },
+    });
+    if (typeof input === "symbol") {
+      return;
+    }
+    const parsed = parseJsonStringMap(input) as Record<string, string>;
+    if (Object.keys(parsed).length > 0) next[field] = parsed;
+  }
+
+  const { data: settings } = readZedSettings();
+  if (providerApiUrl(ref, getConfiguredProvider(settings, ref)).startsWith("https://")) {
+    const insecure = await confirm({
+      message: "Skip TLS certificate verification (self-signed certificates)?",
+      initialValue: current.insecure === true,
+    });
+    if (typeof insecure === "symbol") {
+      return;
+    }
+    if (insecure) next.insecure = true;
+  }
+
+  if (JSON.stringify(next) === JSON.stringify(current)) {
+    console.log("\n⚠️  No changes made\n");
+    return;
+  }
+  if (runtimeOptions.dryRun) {
+    console.log(`\n🔍 Dry run: ${tildify(ZED_API_CONFIG_PATH)} was not modified\n`);
+    return;
+  }
+  writeProviderRequestConfig(ref, next);
+  console.log(`\n✅ Saved request settings to ${tildify(ZED_API_CONFIG_PATH)}\n`);
+}
+
+async function deleteProvider(providerRef?: ProviderRef) {
+  const { text: settingsText, data: settings } = readZedSettings();
+
+  if (listConfiguredProviders(settings).length === 0) {
+    console.log("\n📭 No providers to delete\n");
+    return;
+  }
+
+  // Step 1: Select provider (skip if provided)
+  const ref =
+    providerRef ?? (await selectConfiguredProvider(settings, "Select provider to delete:"));
+
+  if (!ref) {
+    return;
+  }
+
+  const provider = getConfiguredProvider(settings, ref);
+  const modelCount = provider?.available_models?.length || 0;
+
+  // Step 2: Delete using jsonc-parser, confirming first (defaults to "No" for safety)
+  const updatedText = removeProviderFromSettingsText(settingsText, ref);
+  const confirmed = await confirmAndWriteSettings(settingsText, updatedText, {
+    message: `Delete provider "${providerLabel(ref)}" with ${modelCount} model(s)?`,
+    initialValue: "cancel",
+  });
+
+  if (!confirmed) {
+    return;
+  }
+
+  console.log(`\n✅ Successfully deleted provider "${providerLabel(ref)}"\n`);
+  removeProviderShellExport(ref, updatedText);
+  removeProviderRequestConfig(ref);
+}
+
+async function renameProvider(oldName: string) {
+  const { text: settingsText, data: settings } = readZedSettings();
+  const providers = settings?.language_models?.openai_compatible || {};
+
+  // Prompt for new name
+  const newName = await text({
+    message: "New provider name:",
+    placeholder: oldName,
+    validate: (value) => {
+      if (!value) return "Provider name is required";
+      if (value === oldName) return "Name unchanged";
+      if (providers[value]) return "Provider name already exists";
+    },
+  });
+
+  if (typeof newName === "symbol") {
+    return;
+  }
+
+  const updatedText = renameProviderInSettingsText(
+    settingsText,
+    oldName,
+    newName as string,
+  );
+
+  // Confirm rename
+  const confirmed = await confirmAndWriteSettings(settingsText, updatedText, {
+    message: `Rename "${oldName}" to "${newName}"?`,
+  });
+
+  if (!confirmed) {
+    return;
+  }
+  console.log(`\n✅ Successfully renamed "${oldName}" to "${newName}"\n`);
+  moveApiKey(deriveEnvVarName(oldName), deriveEnvVarName(newName as string));
+  moveProviderRequestConfig(openAICompatibleRef(oldName), openAICompatibleRef(newName as string));
+}
+
+async function modifyProviderMenu() {
+  const { data: settings } = readZedSettings();
+
+  if (listConfiguredProviders(settings).length === 0) {
+    console.log("\n⚠️  No providers configured.\n");
+    return;
+  }
+
+  // Step 1: Select provider
+  const ref = await selectConfiguredProvider(settings, "Select provider to modify:");
+
+  if (!ref) {
+    return;
+  }
+
+  // Step 2: Show sub-menu
+  while (true) {
+    console.log("");
+    const action = await select({
+      message: `Modify "${providerLabel(ref)}" - Select action:`,
+      options: [
+        { value: "add-models", label: "Add/Remove models" },
+        { value: "modify-models", label: "Modify model settings" },
+        { value: "reorder", label: "Reorder models" },
+        { value: "url", label: "Change URL" },
+        { value: "request", label: "Authentication, headers and TLS" },
+        { value: "check", label: "Check model health" },
+        // Only named openai_compatible providers can be renamed.
+        ...(PROVIDER_FAMILIES[ref.family].multiInstance
+          ? [{ value: "rename", label: "Rename provider" }]
+          : []),
+        { value: "delete", label: "Delete provider" },
+        { value: "back", label: "Back to main menu" },
+      ],
+    });
+
+    if (typeof action === "symbol" || action === "back") {
+      break;
+    }
+
+    switch (action) {
+      case "add-models":
+        await addModelsToProvider(ref);
+        break;
+      case "modify-models":
+        await editModelSettings(ref);
+        break;
+      case "reorder":
+        await reorderModels(ref);
+        break;
+      case "url":
+        await changeProviderUrl(ref);
+        break;
+      case "request":
+        await editProviderRequestSettings(ref);
+        break;
+      case "check":
+        await checkProviderModels(ref);
+        break;
+      case "rename":
+        await renameProvider(ref.name);
+        // If renamed, exit sub-menu since provider name changed
+        break;
+      case "delete":
+        await deleteProvider(ref);
+        // If deleted, exit sub-menu
+        break;
+    }
+
+    // Exit sub-menu after rename or delete
+    if (action === "rename" || action === "delete") {
+      break;
+    }
+  }
+}
+
+async function mainMenu() {
+  while (true) {
+    console.log("");
+    const action = await select({
+      message: "What would you like to do?",
+      options: [
+        { value: "add", label: "Add provider" },
+        { value: "modify", label: "Modify provider" },
+        { value: "list", label: "List all providers" },
+        { value: "audit", label: "Audit providers", hint: "find retired, changed and new models" },
+        { value: "lint", label: "Check settings.json", hint: "find and fix problems" },
+        { value: "discover", label: "Discover local servers", hint: "Ollama, LM Studio, vLLM, llama.cpp, ..." },
+        { value: "export", label: "Export providers", hint: "write a shareable bundle" },
+        { value: "import", label: "Import providers", hint: "from a bundle file or URL" },
+        { value: "exit", label: "Exit" },
+      ],
+    });
 
     if (typeof action === "symbol" || action === "exit") {
       outro("👋 Goodbye!");
       break;
     }
 
-    switch (action) {
-      case "add":
-        await addProvider();
-        break;
-      case "modify":
-        await modifyProviderMenu();
-        break;
-      case "list":
-        await listProviders();
-        break;
+    switch (action) {
+      case "add":
+        await addProvider();
+        break;
+      case "modify":
+        await modifyProviderMenu();
+        break;
+      case "list":
+        await listProviders();
+        break;
+      case "audit":
+        await auditProviders();
+        break;
+      case "lint":
+        await lintSettings();
+        break;
+      case "discover":
+        await discoverServers();
+        break;
+      case "export":
+        await exportProviders();
+        break;
+      case "import":
+        await importProviders();
+        break;
+    }
+  }
+}
+
+const MANIFEST_FILE_NAMES = [
+  "zed-providers.yaml",
+  "zed-providers.yml",
+  "zed-providers.json",
+];
+
+const CAPABILITY_KEYS: (keyof ModelCapabilities)[] = [
+  "tools",
+  "images",
+  "parallel_tool_calls",
+  "prompt_cache_key",
+];
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split("")
+    .map((ch) => {
+      if (ch === "*") return ".*";
+      if (ch === "?") return ".";
+      return ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+function isGlobPattern(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+function parseManifest(manifestText: string, manifestPath: string): Manifest {
+  const raw = /\.ya?ml$/i.test(manifestPath)
+    ? yaml.parse(manifestText)
+    : jsonc.parse(manifestText);
+
+  const fail = (message: string): never =>
+    exitWithError(`Invalid manifest ${manifestPath}: ${message}`);
+
+  if (!raw || typeof raw !== "object" || typeof raw.providers !== "object" || !raw.providers) {
+    fail('expected a top-level "providers" object');
+  }
+
+  const providers: Record<string, ManifestProvider> = {};
+  for (const [name, value] of Object.entries<any>(raw.providers)) {
+    const familyId = value?.family ?? "openai_compatible";
+    const family = PROVIDER_FAMILIES[familyId as ProviderFamilyId];
+    if (!family) {
+      fail(`provider "${name}" has an unknown "family" (${Object.keys(PROVIDER_FAMILIES).join(", ")})`);
+    }
+    const apiUrl = value?.api_url ?? family.defaultApiUrl;
+    if (typeof apiUrl !== "string" || !/^https?:\/\//.test(apiUrl)) {
+      fail(`provider "${name}" needs an http(s) "api_url"`);
+    }
+    if (!Array.isArray(value.models) || value.models.length === 0) {
+      fail(`provider "${name}" needs a non-empty "models" list`);
+    }
+    if (
+      value.default_max_tokens !== undefined &&
+      (!Number.isInteger(value.default_max_tokens) || value.default_max_tokens <= 0)
+    ) {
+      fail(`provider "${name}" has an invalid "default_max_tokens"`);
+    }
+
+    const models: ManifestModelEntry[] = value.models.map((entry: any) =>
+      parseModelOverrideEntry(entry, `provider "${name}"`, fail),
+    );
+
+    providers[name] = {
+      family: family.id,
+      api_url: apiUrl,
+      fetch_models: value.fetch_models !== false,
+      default_max_tokens: value.default_max_tokens,
+      models,
+    };
+  }
+
+  return { providers };
+}
+
+// A model entry of a manifest or preset: an ID or glob, optionally with overrides.
+function parseModelOverrideEntry(
+  entry: any,
+  owner: string,
+  fail: (message: string) => never,
+): ManifestModelEntry {
+  if (typeof entry === "string") return { match: entry };
+  if (!entry || typeof entry.match !== "string") {
+    fail(`${owner} has a model entry without "match"`);
+  }
+  for (const field of ["max_tokens", "max_output_tokens", "max_completion_tokens"]) {
+    if (entry[field] !== undefined && (!Number.isInteger(entry[field]) || entry[field] <= 0)) {
+      fail(`model "${entry.match}" in ${owner} has an invalid "${field}"`);
+    }
+  }
+  for (const [key, flag] of Object.entries(entry.capabilities || {})) {
+    if (!CAPABILITY_KEYS.includes(key as keyof ModelCapabilities) || typeof flag !== "boolean") {
+      fail(`model "${entry.match}" in ${owner} has an invalid capability "${key}"`);
+    }
+  }
+  return {
+    match: entry.match,
+    display_name: entry.display_name,
+    max_tokens: entry.max_tokens,
+    max_output_tokens: entry.max_output_tokens,
+    max_completion_tokens: entry.max_completion_tokens,
+    capabilities: entry.capabilities,
+  };
+}
+
+function findManifestPath(explicitPath?: string): string {
+  if (explicitPath) {
+    if (!existsSync(explicitPath)) exitWithError(`Manifest not found: ${explicitPath}`);
+    return explicitPath;
+  }
+  const found = MANIFEST_FILE_NAMES.find((name) => existsSync(name));
+  if (!found) {
+    exitWithError(`No manifest found (looked for ${MANIFEST_FILE_NAMES.join(", ")})`);
+  }
+  return found;
+}
+
+// Capabilities the family has no field for are ignored.
+function applyManifestOverrides(
+  family: ProviderFamily,
+  model: FamilyModel,
+  entries: ManifestModelEntry[],
+): FamilyModel {
+  const result: FamilyModel = structuredClone(model);
+  for (const entry of entries) {
+    if (entry.display_name !== undefined) result.display_name = entry.display_name;
+    if (entry.max_tokens !== undefined) result.max_tokens = entry.max_tokens;
+    for (const field of family.outputTokenFields) {
+      if (entry[field] !== undefined) result[field] = entry[field];
+    }
+    for (const [key, value] of Object.entries(entry.capabilities || {})) {
+      writeFamilyCapability(family, result, key as keyof ModelCapabilities, value);
+    }
+  }
+  return result;
+}
+
+function describeModelChanges(
+  family: ProviderFamily,
+  before: FamilyModel,
+  after: FamilyModel,
+): string[] {
+  const changes: string[] = [];
+  if (before.display_name !== after.display_name) {
+    changes.push(`display_name: ${before.display_name ?? "unset"} → ${after.display_name ?? "unset"}`);
+  }
+  for (const field of ["max_tokens", ...family.outputTokenFields]) {
+    if (before[field] !== after[field]) {
+      changes.push(`${field}: ${before[field] ?? "unset"} → ${after[field] ?? "unset"}`);
+    }
+  }
+  for (const key of CAPABILITY_KEYS) {
+    const from = readFamilyCapability(family, before, key);
+    const to = readFamilyCapability(family, after, key);
+    if (from !== to) changes.push(`${family.capabilityPaths[key]!.join(".")}: ${from} → ${to}`);
+  }
+  return changes;
+}
+
+async function planManifestProvider(
+  name: string,
+  manifestProvider: ManifestProvider,
+  existing: any,
+): Promise<ProviderPlan> {
+  const family = PROVIDER_FAMILIES[manifestProvider.family];
+  const ref: ProviderRef = family.multiInstance
+    ? openAICompatibleRef(name)
+    : { family: family.id, name: family.id };
+  const warnings: string[] = [];
+  const entries = manifestProvider.models;
+  const matchers = entries.map((entry) => globToRegExp(entry.match));
+  const entriesFor = (modelId: string) =>
+    entries.filter((_, i) => matchers[i].test(modelId));
+
+  // Resolve the desired model IDs, optionally against the provider's /models list.
+  let fetchedModels: Model[] = [];
+  let desiredIds: string[];
+  const apiUrl = family.normalizeApiUrl(manifestProvider.api_url);
+  if (manifestProvider.fetch_models) {
+    const apiKey = resolveApiKey(providerEnvVarName(ref));
+    fetchedModels = await fetchModels(family.modelsEndpoint(apiUrl), apiKey, ref);
+    desiredIds = fetchedModels.map((m) => m.id).filter((id) => entriesFor(id).length > 0);
+
+    for (const entry of entries) {
+      const matcher = globToRegExp(entry.match);
+      if (!fetchedModels.some((m) => matcher.test(m.id))) {
+        warnings.push(`"${entry.match}" matches no model served by the provider`);
+      }
+    }
+  } else {
+    desiredIds = [];
+    for (const entry of entries) {
+      if (isGlobPattern(entry.match)) {
+        warnings.push(`"${entry.match}" is a pattern but fetch_models is disabled; skipped`);
+      } else if (!desiredIds.includes(entry.match)) {
+        desiredIds.push(entry.match);
+      }
+    }
+  }
+
+  const defaultMaxTokens = manifestProvider.default_max_tokens ?? 8192;
+  const existingModels: FamilyModel[] = existing?.available_models || [];
+  const existingNames = new Set(existingModels.map((m) => m.name));
+  const desiredSet = new Set(desiredIds);
+
+  const removed: string[] = [];
+  const updated: { name: string; changes: string[] }[] = [];
+  const models: FamilyModel[] = [];
+
+  // Keep the existing order; models the manifest doesn't manage are left untouched.
+  for (const model of existingModels) {
+    const matching = entriesFor(model.name);
+    if (matching.length === 0) {
+      models.push(model);
+      continue;
+    }
+    if (!desiredSet.has(model.name)) {
+      removed.push(model.name);
+      continue;
+    }
+    const next = applyManifestOverrides(family, model, matching);
+    const changes = describeModelChanges(family, model, next);
+    if (changes.length > 0) updated.push({ name: model.name, changes });
+    models.push(next);
+  }
+
+  const additions = desiredIds.filter((id) => !existingNames.has(id));
+  const newModels = await buildAvailableModels(
+    additions,
+    fetchedModels,
+    defaultMaxTokens,
+    family,
+  );
+  for (const model of newModels) {
+    models.push(applyManifestOverrides(family, model, entriesFor(model.name)));
+  }
+
+  const apiUrlChanged = existing ? providerApiUrl(ref, existing) !== apiUrl : true;
+  const changed =
+    apiUrlChanged || additions.length > 0 || removed.length > 0 || updated.length > 0;
+
+  return {
+    ref,
+    action: !existing ? "add" : changed ? "update" : "unchanged",
+    apiUrl: { from: existing ? providerApiUrl(ref, existing) : undefined, to: apiUrl },
+    added: additions,
+    removed,
+    updated,
+    warnings,
+    models,
+  };
+}
+
+async function planManifest(manifest: Manifest): Promise<ProviderPlan[]> {
+  const { data: settings } = readZedSettings();
+  const plans: ProviderPlan[] = [];
+  for (const [name, manifestProvider] of Object.entries(manifest.providers)) {
+    const ref: ProviderRef = PROVIDER_FAMILIES[manifestProvider.family].multiInstance
+      ? openAICompatibleRef(name)
+      : { family: manifestProvider.family, name: manifestProvider.family };
+    plans.push(
+      await planManifestProvider(name, manifestProvider, getConfiguredProvider(settings, ref)),
+    );
+  }
+  return plans;
+}
+
+function printManifestPlan(plans: ProviderPlan[]) {
+  for (const plan of plans) {
+    const label = providerLabel(plan.ref);
+    if (plan.action === "unchanged") {
+      console.log(`  ${label} (up to date)`);
+    } else if (plan.action === "add") {
+      console.log(`+ ${label} (${plan.models.length} models)`);
+      console.log(`    api_url: ${plan.apiUrl.to}`);
+      plan.added.forEach((id) => console.log(`  + ${id}`));
+    } else {
+      console.log(`~ ${label}`);
+      if (plan.apiUrl.from !== plan.apiUrl.to) {
+        console.log(`    api_url: ${plan.apiUrl.from} → ${plan.apiUrl.to}`);
+      }
+      plan.added.forEach((id) => console.log(`  + ${id}`));
+      plan.removed.forEach((id) => console.log(`  - ${id}`));
+      for (const update of plan.updated) {
+        console.log(`  ~ ${update.name} (${update.changes.join(", ")})`);
+      }
+    }
+    plan.warnings.forEach((w) => console.log(`    ⚠️  ${w}`));
+  }
+
+  const pending = plans.filter((p) => p.action !== "unchanged").length;
+  console.log(
+    pending === 0
+      ? "\n✅ Settings match the manifest"
+      : `\n📝 ${pending} provider(s) to change`,
+  );
+}
+
+function applyManifestPlan(settingsText: string, plans: ProviderPlan[]): string {
+  let updatedText = settingsText;
+  for (const plan of plans) {
+    if (plan.action === "add") {
+      updatedText = setProviderInSettingsText(updatedText, plan.ref, {
+        api_url: plan.apiUrl.to,
+        available_models: plan.models,
+      });
+      continue;
+    }
+    if (plan.action === "unchanged") continue;
+
+    if (plan.apiUrl.from !== plan.apiUrl.to) {
+      updatedText = modifySettingsText(
+        updatedText,
+        [...providerSettingsPath(plan.ref), "api_url"],
+        plan.apiUrl.to,
+      );
+    }
+    if (plan.added.length > 0 || plan.removed.length > 0 || plan.updated.length > 0) {
+      updatedText = setProviderModelsInSettingsText(updatedText, plan.ref, plan.models);
+    }
+  }
+  return updatedText;
+}
+
+const CAPABILITY_PROBE_LABELS: Record<keyof ModelCapabilities, string> = {
+  tools: "Tools",
+  images: "Images",
+  parallel_tool_calls: "Parallel",
+  prompt_cache_key: "Cache key",
+};
+const PROBE_TIMEOUT_SECONDS = 30;
+
+// 1x1 white PNG, small enough to send to every model.
+const PROBE_IMAGE_URL =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4//8/AAX+Av4N70a4AAAAAElFTkSuQmCC";
+
+// Long enough (over 1024 tokens) for OpenAI-style prompt caching to kick in.
+const PROBE_CACHE_PROMPT = `${"The quick brown fox jumps over the lazy dog. ".repeat(150)}Reply with OK.`;
+
+const PROBE_WEATHER_TOOL = {
+  type: "function",
+  function: {
+    name: "get_weather",
+    description: "Get the current weather for a city",
+    parameters: {
+      type: "object",
+      properties: { city: { type: "string" } },
+      required: ["city"],
+    },
+  },
+};
+
+// Null for families whose chat API cannot be probed.
+function chatProbeTarget(
+  ref: ProviderRef,
+  apiUrl: string,
+  timeoutMs: number,
+): ProbeTarget | null {
+  const family = PROVIDER_FAMILIES[ref.family];
+  if (!family.chatEndpoint) return null;
+  const apiKey = resolveApiKey(providerEnvVarName(ref));
+  const request = providerRequest(ref, family.chatEndpoint(apiUrl), apiKey);
+  return {
+    endpoint: request.url,
+    headers: request.headers,
+    insecure: request.insecure,
+    timeoutMs,
+  };
+}
+
+// Capabilities are only probed once chat works, so a 404 there means no route
+// serves the request: OpenRouter answers "No endpoints found that support tool
+// use" for a model without tool support.
+function isInconclusiveStatus(status: number, capability?: keyof ModelCapabilities): boolean {
+  if (status === 404 && capability && capability !== "prompt_cache_key") return false;
+  return [401, 403, 404, 408, 429].includes(status) || status >= 500;
+}
+
+async function describeHttpError(response: Response): Promise<string> {
+  const body = (await response.text()).trim();
+  let message = body;
+  try {
+    message = JSON.parse(body)?.error?.message ?? body;
+  } catch {
+    // Plain-text error body
+  }
+  const preview = String(message).replace(/\s+/g, " ").slice(0, 120);
+  return preview ? `HTTP ${response.status}: ${preview}` : `HTTP ${response.status}`;
+}
+
+function describeRequestError(error: unknown, timeoutMs: number): string {
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return `timed out after ${timeoutMs / 1000}s`;
+  }
+  const code = (error as { code?: string } | undefined)?.code ?? "";
+  if (/CERT|SELF_SIGNED|UNABLE_TO_VERIFY/.test(code)) {
+    return `${(error as Error).message} (trust the issuer with --ca-file, or skip verification with "zed-api auth <provider> --insecure")`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function postChatCompletion(
+  target: ProbeTarget,
+  body: Record<string, any>,
+): Promise<Response> {
+  return networkFetch(
+    target.endpoint,
+    { method: "POST", headers: target.headers, body: JSON.stringify(body) },
+    { insecure: target.insecure, timeoutMs: target.timeoutMs },
+  );
+}
+
+// Streams a short completion to measure time-to-first-token and tokens/sec.
+async function probeChat(
+  target: ProbeTarget,
+  modelName: string,
+): Promise<ModelCheckResult["chat"]> {
+  const startedAt = performance.now();
+  try {
+    const response = await postChatCompletion(target, {
+      model: modelName,
+      messages: [{ role: "user", content: "Count from 1 to 10, separated by spaces." }],
+      max_tokens: 32,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    if (!response.ok) {
+      return {
+        ok: false,
+        error: await describeHttpError(response),
+        inconclusive: isInconclusiveStatus(response.status),
+      };
+    }
+
+    // Servers that ignore `stream` answer with a single JSON body.
+    const contentType = response.headers.get("content-type") || "";
+    if (!contentType.includes("text/event-stream") || !response.body) {
+      const json: any = await response.json();
+      if (!json?.choices?.length) return { ok: false, error: "response has no choices" };
+      return { ok: true, ttftMs: performance.now() - startedAt };
+    }
+
+    let firstTokenAt: number | undefined;
+    let chunkCount = 0;
+    let completionTokens: number | undefined;
+    let buffer = "";
+    const decoder = new TextDecoder();
+    const reader = response.body.getReader();
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue;
+        const data = line.slice(5).trim();
+        if (!data || data === "[DONE]") continue;
+
+        let event: any;
+        try {
+          event = JSON.parse(data);
+        } catch {
+          continue;
+        }
+        if (event.error) {
+          return { ok: false, error: String(event.error.message ?? event.error) };
+        }
+        const delta = event.choices?.[0]?.delta;
+        if (delta?.content || delta?.reasoning_content) {
+          firstTokenAt ??= performance.now();
+          chunkCount++;
+        }
+        if (typeof event.usage?.completion_tokens === "number") {
+          completionTokens = event.usage.completion_tokens;
+        }
+      }
+    }
+
+    if (firstTokenAt === undefined) return { ok: false, error: "empty response" };
+    const finishedAt = performance.now();
+    // Rate of the tokens generated after the first one; usage is more accurate
+    // than chunk counts when the server reports it.
+    const generatedTokens = (completionTokens ?? chunkCount) - 1;
+    const generationSeconds = (finishedAt - firstTokenAt) / 1000;
+    return {
+      ok: true,
+      ttftMs: firstTokenAt - startedAt,
+      tokensPerSecond:
+        generatedTokens > 0 && generationSeconds > 0
+          ? generatedTokens / generationSeconds
+          : undefined,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      error: describeRequestError(error, target.timeoutMs),
+      inconclusive: true,
+    };
+  }
+}
+
+function capabilityProbeRequest(capability: keyof ModelCapabilities, modelName: string) {
+  switch (capability) {
+    case "tools":
+      return {
+        model: modelName,
+        messages: [
+          { role: "user", content: "What is the weather in Paris? Use the get_weather tool." },
+        ],
+        tools: [PROBE_WEATHER_TOOL],
+        max_tokens: 64,
+      };
+    case "parallel_tool_calls":
+      return {
+        model: modelName,
+        messages: [
+          {
+            role: "user",
+            content:
+              "What is the weather in Paris and in Tokyo? Call get_weather once per city, in parallel.",
+          },
+        ],
+        tools: [PROBE_WEATHER_TOOL],
+        parallel_tool_calls: true,
+        max_tokens: 128,
+      };
+    case "images":
+      return {
+        model: modelName,
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: "What color is this image? Answer in one word." },
+              { type: "image_url", image_url: { url: PROBE_IMAGE_URL } },
+            ],
+          },
+        ],
+        max_tokens: 16,
+      };
+    case "prompt_cache_key":
+      return {
+        model: modelName,
+        messages: [{ role: "user", content: PROBE_CACHE_PROMPT }],
+        prompt_cache_key: "zed-api-probe",
+        max_tokens: 8,
+      };
+  }
+}
+
+// Only called for models whose chat probe succeeded.
+async function probeCapability(
+  target: ProbeTarget,
+  modelName: string,
+  capability: keyof ModelCapabilities,
+): Promise<ProbeResult> {
+  try {
+    const response = await postChatCompletion(
+      target,
+      capabilityProbeRequest(capability, modelName),
+    );
+    if (!response.ok) {
+      return {
+        ok: false,
+        error: await describeHttpError(response),
+        inconclusive: isInconclusiveStatus(response.status, capability),
+      };
+    }
+
+    const json: any = await response.json();
+    const message = json?.choices?.[0]?.message;
+    if (!message) return { ok: false, error: "response has no message", inconclusive: true };
+    // Accepting the image is all this probe asks.
+    if (capability === "images") return { ok: true };
+    if (capability === "prompt_cache_key") return await probePromptCacheHit(target, modelName);
+
+    const toolCalls = Array.isArray(message.tool_calls) ? message.tool_calls.length : 0;
+    const required = capability === "parallel_tool_calls" ? 2 : 1;
+    return toolCalls >= required
+      ? { ok: true }
+      : { ok: false, error: `expected ${required} tool call(s), got ${toolCalls}` };
+  } catch (error) {
+    return {
+      ok: false,
+      error: describeRequestError(error, target.timeoutMs),
+      inconclusive: true,
+    };
+  }
+}
+
+// OpenAI reports prompt_tokens_details.cached_tokens, DeepSeek prompt_cache_hit_tokens.
+function cachedPromptTokens(usage: any): number {
+  const cached = usage?.prompt_tokens_details?.cached_tokens ?? usage?.prompt_cache_hit_tokens;
+  return typeof cached === "number" ? cached : 0;
+}
+
+// Servers ignore body fields they don't know, so a prompt_cache_key that was
+// accepted proves nothing. Sent again, a supported key makes the server report
+// cached prompt tokens; without them support stays unknown.
+async function probePromptCacheHit(target: ProbeTarget, modelName: string): Promise<ProbeResult> {
+  const response = await postChatCompletion(
+    target,
+    capabilityProbeRequest("prompt_cache_key", modelName),
+  );
+  if (!response.ok) {
+    return { ok: false, error: await describeHttpError(response), inconclusive: true };
+  }
+  const json: any = await response.json();
+  if (cachedPromptTokens(json?.usage) > 0) return { ok: true };
+  return {
+    ok: false,
+    error: "accepted, but no cached prompt tokens were reported on a repeated request",
+    inconclusive: true,
+    unknown: true,
+  };
+}
+
+function formatProbeCell(result: ProbeResult | undefined, width: number): string {
+  if (!result) return "-".padEnd(width);
+  if (result.ok) return pc.green("pass".padEnd(width));
+  if (result.unknown) return pc.yellow("unknown".padEnd(width));
+  return result.inconclusive ? pc.yellow("error".padEnd(width)) : pc.red("FAIL".padEnd(width));
+}
+
+// Probes every model of every target and prints one table row per model as
+// soon as its probes finish.
+async function runModelChecks(
+  targets: { ref: ProviderRef; provider: any; modelIndexes: number[] }[],
+  probes: (keyof ModelCapabilities)[],
+  timeoutMs: number,
+): Promise<ModelCheckResult[]> {
+  const rows = targets.flatMap(({ ref, provider, modelIndexes }) =>
+    modelIndexes.map((i) => `${providerLabel(ref)} / ${provider.available_models[i].name}`),
+  );
+  const modelWidth = Math.max(5, ...rows.map((r) => r.length));
+  const probeWidths = probes.map((p) => Math.max(5, CAPABILITY_PROBE_LABELS[p].length));
+
+  const header = [
+    "Model".padEnd(modelWidth),
+    "Chat ",
+    "TTFT    ",
+    "Tok/s  ",
+    ...probes.map((p, i) => CAPABILITY_PROBE_LABELS[p].padEnd(probeWidths[i])),
+  ].join("  ");
+  console.log(`\n${pc.bold(header)}`);
+  console.log("─".repeat(header.length));
+
+  const results: ModelCheckResult[] = [];
+  let row = 0;
+  for (const { ref, provider, modelIndexes } of targets) {
+    const target = chatProbeTarget(ref, providerApiUrl(ref, provider), timeoutMs)!;
+
+    for (const modelIndex of modelIndexes) {
+      const model: FamilyModel = provider.available_models[modelIndex];
+      const chat = await probeChat(target, model.name);
+      const probeResults: ModelCheckResult["probes"] = {};
+      // A model that cannot answer a plain chat request cannot tell us anything
+      // about its capabilities.
+      if (chat.ok) {
+        for (const probe of probes) {
+          probeResults[probe] = await probeCapability(target, model.name, probe);
+        }
+      }
+      results.push({ ref, modelIndex, model, chat, probes: probeResults });
+
+      console.log(
+        [
+          rows[row++].padEnd(modelWidth),
+          formatProbeCell(chat, 5),
+          (chat.ttftMs !== undefined ? `${Math.round(chat.ttftMs)}ms` : "-").padEnd(8),
+          (chat.tokensPerSecond !== undefined ? chat.tokensPerSecond.toFixed(1) : "-").padEnd(7),
+          ...probes.map((p, i) => formatProbeCell(probeResults[p], probeWidths[i])),
+        ].join("  "),
+      );
+    }
+  }
+
+  const errors = results.flatMap((r) => [
+    ...(r.chat.error ? [{ r, probe: "chat", error: r.chat.error }] : []),
+    ...Object.entries(r.probes)
+      .filter(([, result]) => result?.error)
+      .map(([probe, result]) => ({ r, probe, error: result!.error! })),
+  ]);
+  if (errors.length > 0) {
+    console.log("");
+    for (const { r, probe, error } of errors) {
+      console.log(`  ⚠️  ${providerLabel(r.ref)} / ${r.model.name} (${probe}): ${error}`);
+    }
+  }
+  console.log("");
+  return results;
+}
+
+// Capability flags that disagree with a conclusive probe result.
+function findCapabilityCorrections(results: ModelCheckResult[]): CapabilityCorrection[] {
+  const corrections: CapabilityCorrection[] = [];
+  for (const result of results) {
+    const family = PROVIDER_FAMILIES[result.ref.family];
+    for (const [capability, probe] of Object.entries(result.probes) as [
+      keyof ModelCapabilities,
+      ProbeResult,
+    ][]) {
+      if (probe.inconclusive || !family.capabilityPaths[capability]) continue;
+      const configured = readFamilyCapability(family, result.model, capability);
+      if (configured === probe.ok) continue;
+      corrections.push({
+        ref: result.ref,
+        modelName: result.model.name,
+        capability,
+        from: configured,
+        to: probe.ok,
+      });
+    }
+  }
+  return corrections;
+}
+
+function printCapabilityCorrections(corrections: CapabilityCorrection[]) {
+  console.log("🛠️  Capabilities that disagree with the probes:\n");
+  for (const c of corrections) {
+    console.log(
+      `  ${providerLabel(c.ref)} / ${c.modelName}: ${c.capability} ${c.from ?? "unset"} → ${c.to}`,
+    );
+  }
+  console.log("");
+}
+
+// Models are looked up by name in the current settings, which may have been
+// edited while the probes ran; corrections for models gone since are skipped.
+function applyCapabilityCorrections(
+  settingsText: string,
+  corrections: CapabilityCorrection[],
+): { text: string; applied: number } {
+  const settings = jsonc.parse(settingsText);
+  let updatedText = settingsText;
+  let applied = 0;
+  const refs = new Map(corrections.map((c) => [providerLabel(c.ref), c.ref]));
+
+  for (const [label, ref] of refs) {
+    const family = PROVIDER_FAMILIES[ref.family];
+    const provider = getConfiguredProvider(settings, ref);
+    const models: FamilyModel[] = structuredClone(provider?.available_models || []);
+    let changed = false;
+    for (const c of corrections) {
+      if (providerLabel(c.ref) !== label) continue;
+      const model = models.find((m) => m?.name === c.modelName);
+      if (!provider || !model) {
+        console.log(`⚠️  Skipping ${label} / ${c.modelName}: no longer configured`);
+        continue;
+      }
+      writeFamilyCapability(family, model, c.capability, c.to);
+      changed = true;
+      applied++;
+    }
+    if (changed) updatedText = setProviderModelsInSettingsText(updatedText, ref, models);
+  }
+  return { text: updatedText, applied };
+}
+
+async function checkProviderModels(providerRef?: ProviderRef) {
+  const { data: settings } = readZedSettings();
+
+  if (listConfiguredProviders(settings).length === 0) {
+    console.log("\n⚠️  No providers configured.\n");
+    return;
+  }
+
+  const ref =
+    providerRef ?? (await selectConfiguredProvider(settings, "Select provider to check:"));
+  if (!ref) return;
+
+  const family = PROVIDER_FAMILIES[ref.family];
+  const provider = getConfiguredProvider(settings, ref);
+  const models: FamilyModel[] = provider.available_models || [];
+
+  if (!family.chatEndpoint) {
+    console.log(`\n⚠️  Health checks are not supported for ${family.label} yet.\n`);
+    return;
+  }
+  if (runtimeOptions.offline) {
+    console.log("\n⚠️  Health checks send requests and are unavailable with --offline.\n");
+    return;
+  }
+  if (models.length === 0) {
+    console.log("\n⚠️  No models configured for this provider.\n");
+    return;
+  }
+
+  const modelIndexes = await multiselect({
+    message: "Select models to check (Space to toggle, Enter to confirm):",
+    options: models.map((m, index) => ({ value: index, label: m.name })),
+    initialValues: models.map((_, index) => index),
+    required: true,
+  });
+  if (typeof modelIndexes === "symbol") return;
+
+  const probes = await multiselect({
+    message: "Additional probes (Space to toggle, Enter to confirm):",
+    options: CAPABILITY_KEYS.map((probe) => ({
+      value: probe,
+      label: CAPABILITY_PROBE_LABELS[probe],
+      hint: probe === "images" ? "sends a 1x1 image" : undefined,
+    })),
+    initialValues: CAPABILITY_KEYS,
+    required: false,
+  });
+  if (typeof probes === "symbol") return;
+
+  const results = await runModelChecks(
+    [{ ref, provider, modelIndexes: modelIndexes as number[] }],
+    probes as (keyof ModelCapabilities)[],
+    PROBE_TIMEOUT_SECONDS * 1000,
+  );
+
+  const passed = results.filter((r) => r.chat.ok).length;
+  console.log(`📊 ${passed}/${results.length} model(s) answered\n`);
+
+  const corrections = findCapabilityCorrections(results);
+  if (corrections.length === 0) return;
+  printCapabilityCorrections(corrections);
+
+  const { text: settingsText } = readZedSettings();
+  const { text: updatedText, applied } = applyCapabilityCorrections(settingsText, corrections);
+  const written = await confirmAndWriteSettings(settingsText, updatedText, {
+    message: "Update these capabilities in settings.json?",
+  });
+  if (written) {
+    console.log(`\n✅ Corrected ${applied} capability flag(s)\n`);
+  }
+}
+
+// Unlike fetchModels, failures are returned instead of ending the process, so
+// one unreachable provider does not stop an audit of the others.
+async function tryFetchProviderModels(
+  ref: ProviderRef,
+  provider: any,
+): Promise<{ models?: Model[]; error?: string }> {
+  const family = PROVIDER_FAMILIES[ref.family];
+  const apiKey = resolveApiKey(providerEnvVarName(ref));
+  const endpoint = family.modelsEndpoint(providerApiUrl(ref, provider));
+  const request = providerRequest(ref, endpoint, apiKey);
+  try {
+    const { body, response } = await fetchJsonWithCache(
+      request.url,
+      request.headers,
+      MODELS_CACHE_TTL_SECONDS,
+      apiKey,
+      { insecure: request.insecure },
+    );
+    if (response) return { error: await describeHttpError(response) };
+    return {
+      models: await applyModelMetadataAdapters(family.parseModels(body), endpoint, ref, apiKey),
+    };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// The ID with every version number generalized, so "claude-3-5-sonnet-20241022"
+// also matches "claude-3-7-sonnet-20250219". Null for IDs without numbers.
+function modelSeriesPattern(modelId: string): { regex: RegExp; label: string } | null {
+  const parts = modelId.split(/(\d+(?:[._]\d+)*)/);
+  if (parts.length === 1) return null;
+  const source = parts
+    .map((part, i) =>
+      i % 2 === 1 ? "\\d+(?:[._]\\d+)*" : part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+    )
+    .join("");
+  const label = parts.map((part, i) => (i % 2 === 1 ? "*" : part)).join("");
+  return { regex: new RegExp(`^${source}$`, "i"), label };
+}
+
+async function auditProvider(ref: ProviderRef, provider: any): Promise<ProviderAudit> {
+  const family = PROVIDER_FAMILIES[ref.family];
+  const audit: ProviderAudit = { ref, missing: [], drifted: [], published: [], fetchedModels: [] };
+  const { models: fetchedModels, error } = await tryFetchProviderModels(ref, provider);
+  if (!fetchedModels) return { ...audit, error };
+  audit.fetchedModels = fetchedModels;
+
+  const configured: FamilyModel[] = provider.available_models || [];
+  for (const model of configured) {
+    const providerModel = fetchedModels.find((m) => m.id === model.name);
+    if (!providerModel) {
+      audit.missing.push(model.name);
+      continue;
+    }
+
+    // Only what the provider itself reports is drift. OpenRouter lookups and
+    // defaults are guesses, and would undo values fixed with `check --fix`.
+    const next: FamilyModel = structuredClone(model);
+    const reportedContext =
+      positiveNumber(providerModel.context_length) ??
+      positiveNumber(providerModel.top_provider?.context_length);
+    if (reportedContext) next.max_tokens = reportedContext;
+    const reportedOutput = [
+      providerModel.top_provider?.max_completion_tokens,
+      providerModel.max_output_tokens,
+      providerModel.max_completion_tokens,
+    ]
+      .map(positiveNumber)
+      .find((v) => v !== undefined);
+    for (const field of family.outputTokenFields) {
+      // A lower output limit is a choice; only one above the model's maximum drifted
+      if (reportedOutput && typeof model[field] === "number" && model[field] > reportedOutput) {
+        next[field] = reportedOutput;
+      }
+    }
+    const reported = inferCapabilitiesFromProviderModel(providerModel);
+    for (const key of CAPABILITY_KEYS) {
+      const value = reported[key];
+      if (typeof value === "boolean") writeFamilyCapability(family, next, key, value);
+    }
+
+    const changes = describeModelChanges(family, model, next);
+    if (changes.length === 0) continue;
+    const lowers =
+      next.max_tokens < model.max_tokens ||
+      family.outputTokenFields.some((field) => next[field] !== model[field]) ||
+      CAPABILITY_KEYS.some(
+        (key) =>
+          readFamilyCapability(family, model, key) === true &&
+          readFamilyCapability(family, next, key) === false,
+      );
+    audit.drifted.push({ name: model.name, changes, model: next, lowers });
+  }
+
+  const configuredNames = new Set(configured.map((m) => m.name));
+  const patterns = configured
+    .map((m) => modelSeriesPattern(m.name))
+    .filter((p): p is NonNullable<typeof p> => p !== null);
+  for (const { id } of fetchedModels) {
+    if (configuredNames.has(id)) continue;
+    const pattern = patterns.find((p) => p.regex.test(id));
+    if (pattern) audit.published.push({ id, pattern: pattern.label });
+  }
+  return audit;
+}
+
+function auditActionKey(ref: ProviderRef, kind: AuditActionKind, name: string): string {
+  return JSON.stringify([providerLabel(ref), kind, name]);
+}
+
+// The actions applied by default: updates that would lower a value are left out.
+function allAuditActionKeys(audits: ProviderAudit[], kinds: AuditActionKind[]): Set<string> {
+  const keys = new Set<string>();
+  for (const audit of audits) {
+    if (kinds.includes("prune")) {
+      audit.missing.forEach((name) => keys.add(auditActionKey(audit.ref, "prune", name)));
+    }
+    if (kinds.includes("update")) {
+      audit.drifted
+        .filter((d) => !d.lowers)
+        .forEach((d) => keys.add(auditActionKey(audit.ref, "update", d.name)));
+    }
+    if (kinds.includes("add")) {
+      audit.published.forEach((p) => keys.add(auditActionKey(audit.ref, "add", p.id)));
+    }
+  }
+  return keys;
+}
+
+function printProviderAudits(audits: ProviderAudit[]) {
+  for (const audit of audits) {
+    const label = providerLabel(audit.ref);
+    if (audit.error) {
+      console.log(`✗ ${label}: ${audit.error}`);
+      continue;
+    }
+    if (audit.missing.length + audit.drifted.length + audit.published.length === 0) {
+      console.log(`  ${label} (up to date)`);
+      continue;
+    }
+    console.log(`~ ${label}`);
+    audit.missing.forEach((name) => console.log(`  - ${name} (no longer served)`));
+    for (const drift of audit.drifted) {
+      const optIn = drift.lowers ? ", lowers configured values" : "";
+      console.log(`  ~ ${drift.name} (${drift.changes.join(", ")}${optIn})`);
+    }
+    for (const { id, pattern } of audit.published) {
+      console.log(`  + ${id} (new, like ${pattern})`);
+    }
+  }
+}
+
+// Applies the selected prune/update/add actions in one settings edit.
+async function applyProviderAudits(
+  settingsText: string,
+  audits: ProviderAudit[],
+  selected: Set<string>,
+): Promise<string> {
+  let updatedText = settingsText;
+  for (const audit of audits) {
+    const family = PROVIDER_FAMILIES[audit.ref.family];
+    const provider = getConfiguredProvider(jsonc.parse(updatedText), audit.ref);
+    const configured: FamilyModel[] = provider?.available_models || [];
+    const is = (kind: AuditActionKind, name: string) =>
+      selected.has(auditActionKey(audit.ref, kind, name));
+
+    const models = configured
+      .filter((m) => !(audit.missing.includes(m.name) && is("prune", m.name)))
+      .map((m) => {
+        const drift = audit.drifted.find((d) => d.name === m.name);
+        return drift && is("update", m.name) ? drift.model : m;
+      });
+    const additions = audit.published.map((p) => p.id).filter((id) => is("add", id));
+    models.push(...(await buildAvailableModels(additions, audit.fetchedModels, 8192, family)));
+
+    const changed =
+      models.length !== configured.length || models.some((m, i) => m !== configured[i]);
+    if (changed) updatedText = setProviderModelsInSettingsText(updatedText, audit.ref, models);
+  }
+  return updatedText;
+}
+
+async function runAudit(refs: { ref: ProviderRef; provider: any }[]): Promise<ProviderAudit[]> {
+  const s = runtimeOptions.interactive
+    ? spinner()
+    : { start: (_msg: string) => {}, stop: (_msg: string) => {} };
+  const audits: ProviderAudit[] = [];
+  for (const { ref, provider } of refs) {
+    s.start(`Auditing ${providerLabel(ref)}`);
+    audits.push(await auditProvider(ref, provider));
+    s.stop(`Audited ${providerLabel(ref)}`);
+  }
+  return audits;
+}
+
+async function auditProviders() {
+  const { data: settings } = readZedSettings();
+  const configured = listConfiguredProviders(settings);
+  if (configured.length === 0) {
+    console.log("\n⚠️  No providers configured.\n");
+    return;
+  }
+
+  const audits = await runAudit(configured);
+  console.log("");
+  printProviderAudits(audits);
+
+  const options = audits.flatMap((audit) => {
+    const label = providerLabel(audit.ref);
+    return [
+      ...audit.missing.map((name) => ({
+        value: auditActionKey(audit.ref, "prune", name),
+        label: `Remove ${label} / ${name}`,
+        hint: "no longer served",
+      })),
+      ...audit.drifted.map((drift) => ({
+        value: auditActionKey(audit.ref, "update", drift.name),
+        label: `Update ${label} / ${drift.name}`,
+        hint: drift.lowers
+          ? `${drift.changes.join(", ")} (lowers configured values)`
+          : drift.changes.join(", "),
+      })),
+      ...audit.published.map(({ id, pattern }) => ({
+        value: auditActionKey(audit.ref, "add", id),
+        label: `Add ${label} / ${id}`,
+        hint: `like ${pattern}`,
+      })),
+    ];
+  });
+  if (options.length === 0) {
+    console.log("\n✅ Every configured model is still served as configured\n");
+    return;
+  }
+
+  // Removals and updates are pre-selected; new models and updates that lower
+  // configured values are opt-in.
+  console.log("");
+  const selected = await multiselect({
+    message: "Select changes to apply (space to toggle, enter to confirm):",
+    options,
+    initialValues: [...allAuditActionKeys(audits, ["prune", "update"])],
+    required: false,
+  });
+  if (typeof selected === "symbol" || selected.length === 0) return;
+
+  const { text: settingsText } = readZedSettings();
+  const updatedText = await applyProviderAudits(settingsText, audits, new Set(selected));
+  if (await confirmAndWriteSettings(settingsText, updatedText)) {
+    console.log(`\n✅ Applied ${selected.length} change(s)\n`);
+  }
+}
+
+// Syntax errors with the offset they were found at. Comments and trailing
+// commas are fine; Zed accepts both.
+function settingsSyntaxErrors(settingsText: string): SettingsIssue[] {
+  const errors: jsonc.ParseError[] = [];
+  jsonc.parse(settingsText, errors, { allowTrailingComma: true });
+  return errors.map((error) => ({
+    severity: "error",
+    path: [],
+    offset: error.offset,
+    message: `syntax error: ${jsonc.printParseErrorCode(error.error)}`,
+  }));
+}
+
+function formatJsonPath(path: jsonc.JSONPath): string {
+  return path
+    .map((segment, i) =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : /^[A-Za-z_][A-Za-z0-9_]*$/.test(segment)
+          ? `${i > 0 ? "." : ""}${segment}`
+          : `[${JSON.stringify(segment)}]`,
+    )
+    .join("");
+}
+
+// Where the issue's node (or its closest existing ancestor) starts, 1-based.
+function settingsIssueLocation(
+  settingsText: string,
+  issue: SettingsIssue,
+): { line: number; column: number } {
+  let offset = issue.offset;
+  if (offset === undefined) {
+    const tree = jsonc.parseTree(settingsText, [], { allowTrailingComma: true });
+    for (let depth = issue.path.length; depth >= 0 && offset === undefined && tree; depth--) {
+      offset = jsonc.findNodeAtLocation(tree, issue.path.slice(0, depth))?.offset;
+    }
+  }
+  const before = settingsText.slice(0, offset ?? 0).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+// "✗ line 12, column 7: <path>: <message>"
+function formatSettingsIssue(settingsText: string, issue: SettingsIssue): string {
+  const { line, column } = settingsIssueLocation(settingsText, issue);
+  const location = `line ${line}, column ${column}`;
+  const marker = issue.severity === "error" ? "✗" : "⚠️ ";
+  const path = issue.path.length > 0 ? `${formatJsonPath(issue.path)}: ` : "";
+  return `${marker} ${location}: ${path}${issue.message}`;
+}
+
+// The newest cached response per URL, without its query string. Lint finds
+// model lists this way instead of by cache key, which would need the API key
+// and so a keyring or gpg prompt on every write.
+function cachedResponsesByUrl(): Map<string, CacheEntry> {
+  const dir = join(CACHE_DIR, "responses");
+  const entries = new Map<string, CacheEntry>();
+  if (!existsSync(dir)) return entries;
+  for (const file of readdirSync(dir).filter((f) => f.endsWith(".json"))) {
+    const entry = readCacheEntry(join(dir, file));
+    if (typeof entry?.url !== "string") continue;
+    const [url] = splitQuery(entry.url);
+    const known = entries.get(url);
+    if (!known || entry.fetched_at > known.fetched_at) entries.set(url, entry);
+  }
+  return entries;
+}
+
+// Context windows the provider's cached model list (or OpenRouter's, for the
+// same ID) reports; lint never sends requests.
+function cachedContextWindows(
+  ref: ProviderRef,
+  provider: any,
+  cached: Map<string, CacheEntry>,
+): Map<string, number> {
+  const family = PROVIDER_FAMILIES[ref.family];
+  const windows = new Map<string, number>();
+  const [endpoint] = splitQuery(family.modelsEndpoint(providerApiUrl(ref, provider)));
+  const listing = cached.get(endpoint);
+  const openRouter = cached.get(OPENROUTER_MODELS_URL);
+  const openRouterModels: OpenRouterModel[] = Array.isArray(openRouter?.body?.data)
+    ? openRouter.body.data
+    : [];
+
+  for (const model of listing ? family.parseModels(listing.body) : []) {
+    const contextLength = positiveNumber(model.context_length);
+    if (contextLength) windows.set(model.id, contextLength);
+  }
+  for (const model of provider.available_models ?? []) {
+    if (typeof model?.name !== "string" || windows.has(model.name)) continue;
+    const match = openRouterModels.find((m) => m.id === model.name);
+    const contextLength = positiveNumber(match?.context_length);
+    if (contextLength) windows.set(model.name, contextLength);
+  }
+  return windows;
+}
+
+function lintTokenField(
+  issues: SettingsIssue[],
+  path: jsonc.JSONPath,
+  value: unknown,
+): number | undefined {
+  if (typeof value === "number" && Number.isInteger(value) && value > 0) return value;
+  const fixed =
+    typeof value === "string" && /^\d+$/.test(value.trim())
+      ? Number(value)
+      : typeof value === "number" && value >= 1
+        ? Math.floor(value)
+        : undefined;
+  issues.push({
+    severity: "error",
+    path,
+    message: `must be a positive integer, not ${JSON.stringify(value)}`,
+    fix: fixed ? { path, value: fixed, description: `set to ${fixed}` } : undefined,
+  });
+  return fixed;
+}
+
+function lintProvider(
+  ref: ProviderRef,
+  provider: any,
+  issues: SettingsIssue[],
+  cached: Map<string, CacheEntry>,
+) {
+  const family = PROVIDER_FAMILIES[ref.family];
+  const base = providerSettingsPath(ref);
+  if (!provider || typeof provider !== "object" || Array.isArray(provider)) {
+    issues.push({ severity: "error", path: base, message: "must be an object" });
+    return;
+  }
+
+  if (provider.api_url === undefined) {
+    if (family.multiInstance) {
+      issues.push({ severity: "error", path: base, message: "missing api_url" });
+    }
+  } else if (typeof provider.api_url !== "string" || !/^https?:\/\/[^/?#\s]+/.test(provider.api_url)) {
+    issues.push({
+      severity: "error",
+      path: [...base, "api_url"],
+      message: `must be an http(s) URL, not ${JSON.stringify(provider.api_url)}`,
+    });
+  } else {
+    // Zed appends the endpoint itself
+    const [url, query] = splitQuery(provider.api_url);
+    const endpoint = url.match(/\/(chat\/completions|completions|models)\/?$/);
+    if (endpoint) {
+      const fixed = `${url.slice(0, endpoint.index)}${query}`;
+      issues.push({
+        severity: "warning",
+        path: [...base, "api_url"],
+        message: `ends with the /${endpoint[1]} endpoint; Zed expects the base URL`,
+        fix: { path: [...base, "api_url"], value: fixed, description: `set to ${fixed}` },
+      });
+    }
+  }
+
+  if (provider.available_models === undefined) {
+    issues.push({
+      severity: "error",
+      path: base,
+      message: "missing available_models",
+      fix: { path: [...base, "available_models"], value: [], description: "add an empty list" },
+    });
+    return;
+  }
+  if (!Array.isArray(provider.available_models)) {
+    issues.push({ severity: "error", path: [...base, "available_models"], message: "must be a list" });
+    return;
+  }
+
+  const windows = cachedContextWindows(ref, provider, cached);
+  const seen = new Set<string>();
+  provider.available_models.forEach((model: any, index: number) => {
+    const path = [...base, "available_models", index];
+    if (!model || typeof model !== "object" || Array.isArray(model)) {
+      issues.push({ severity: "error", path, message: "must be an object" });
+      return;
+    }
+    if (typeof model.name !== "string" || !model.name) {
+      issues.push({ severity: "error", path, message: "missing name" });
+      return;
+    }
+    if (seen.has(model.name)) {
+      issues.push({
+        severity: "error",
+        path: [...path, "name"],
+        message: `duplicate model "${model.name}"`,
+        fix: { path, value: undefined, description: "remove this entry" },
+      });
+      return;
+    }
+    seen.add(model.name);
+
+    if (model.display_name !== undefined && typeof model.display_name !== "string") {
+      issues.push({ severity: "error", path: [...path, "display_name"], message: "must be a string" });
+    }
+
+    let maxTokens: number | undefined;
+    if (model.max_tokens === undefined) {
+      issues.push({ severity: "error", path, message: "missing max_tokens" });
+    } else {
+      maxTokens = lintTokenField(issues, [...path, "max_tokens"], model.max_tokens);
+    }
+    const contextWindow = windows.get(model.name);
+    if (maxTokens && contextWindow && maxTokens > contextWindow) {
+      issues.push({
+        severity: "warning",
+        path: [...path, "max_tokens"],
+        message: `${maxTokens} is larger than the model's ${contextWindow}-token context window`,
+        fix: {
+          path: [...path, "max_tokens"],
+          value: contextWindow,
+          description: `set to ${contextWindow}`,
+        },
+      });
+      maxTokens = contextWindow;
+    }
+
+    for (const field of family.outputTokenFields) {
+      if (model[field] === undefined) continue;
+      const limit = lintTokenField(issues, [...path, field], model[field]);
+      if (limit && maxTokens && limit > maxTokens) {
+        issues.push({
+          severity: "warning",
+          path: [...path, field],
+          message: `${limit} is larger than max_tokens (${maxTokens})`,
+          fix: { path: [...path, field], value: maxTokens, description: `set to ${maxTokens}` },
+        });
+      }
+    }
+
+    for (const key of CAPABILITY_KEYS) {
+      const capabilityPath = family.capabilityPaths[key];
+      if (!capabilityPath) continue;
+      let value: any = model;
+      for (const segment of capabilityPath) value = value?.[segment];
+      if (value === undefined || typeof value === "boolean") continue;
+      const fixed = value === "true" ? true : value === "false" ? false : undefined;
+      issues.push({
+        severity: "error",
+        path: [...path, ...capabilityPath],
+        message: `must be true or false, not ${JSON.stringify(value)}`,
+        fix:
+          fixed === undefined
+            ? undefined
+            : { path: [...path, ...capabilityPath], value: fixed, description: `set to ${fixed}` },
+      });
+    }
+  });
+}
+
+// Syntax errors first; the schema is only checked on a file that parses.
+function lintSettingsText(settingsText: string): SettingsIssue[] {
+  const syntaxErrors = settingsSyntaxErrors(settingsText);
+  if (syntaxErrors.length > 0) return syntaxErrors;
+
+  const settings = jsonc.parse(settingsText, [], { allowTrailingComma: true });
+  const issues: SettingsIssue[] = [];
+  const languageModels = settings?.language_models;
+  if (languageModels === undefined) return issues;
+  if (!languageModels || typeof languageModels !== "object" || Array.isArray(languageModels)) {
+    return [{ severity: "error", path: ["language_models"], message: "must be an object" }];
+  }
+  const named = languageModels.openai_compatible;
+  if (named !== undefined && (!named || typeof named !== "object" || Array.isArray(named))) {
+    issues.push({
+      severity: "error",
+      path: ["language_models", "openai_compatible"],
+      message: "must be an object",
+    });
+    return issues;
+  }
+
+  const providers = listConfiguredProviders(settings);
+  const cached = providers.length > 0 ? cachedResponsesByUrl() : new Map();
+  for (const { ref, provider } of providers) {
+    lintProvider(ref, provider, issues, cached);
+  }
+  return issues;
+}
+
+function introducedSettingsErrors(oldText: string, newText: string): SettingsIssue[] {
+  const key = (issue: SettingsIssue) => `${JSON.stringify(issue.path)} ${issue.message}`;
+  const existing = new Set(lintSettingsText(oldText).map(key));
+  return lintSettingsText(newText).filter(
+    (issue) => issue.severity === "error" && !existing.has(key(issue)),
+  );
+}
+
+function applySettingsFixes(settingsText: string, issues: SettingsIssue[]): string {
+  return applySettingsEdits(
+    settingsText,
+    issues.flatMap((issue) => (issue.fix ? [issue.fix] : [])),
+  );
+}
+
+function printSettingsIssues(settingsText: string, issues: SettingsIssue[]) {
+  for (const issue of issues) {
+    console.log(`  ${formatSettingsIssue(settingsText, issue)}`);
+    if (issue.fix) console.log(`      fix: ${issue.fix.description}`);
+  }
+}
+
+async function lintSettings() {
+  const settingsText = readSettingsText();
+  const issues = lintSettingsText(settingsText);
+  if (issues.length === 0) {
+    console.log(`\n✅ ${tildify(runtimeOptions.settingsPath)} has no problems\n`);
+    return;
+  }
+
+  console.log(`\n🩺 ${tildify(runtimeOptions.settingsPath)}:\n`);
+  printSettingsIssues(settingsText, issues);
+  console.log("");
+
+  const fixable = issues.filter((issue) => issue.fix);
+  if (fixable.length === 0) {
+    return;
+  }
+  const apply = await confirm({
+    message: `Apply ${fixable.length} fix(es)?`,
+    initialValue: true,
+  });
+  if (typeof apply === "symbol" || !apply) {
+    return;
+  }
+  if (await confirmAndWriteSettings(settingsText, applySettingsFixes(settingsText, fixable))) {
+    console.log(`\n✅ Applied ${fixable.length} fix(es)\n`);
+  }
+}
+
+const BUNDLE_VERSION = 1;
+
+const IMPORT_CONFLICT_POLICIES: ImportConflictPolicy[] = ["skip", "overwrite", "rename"];
+
+// Block keys that could hold credentials never leave the machine.
+const SECRET_KEY_PATTERN = /api_?key|token|secret|password/i;
+
+// Extra headers and query parameters (e.g. ?code=) may carry credentials, so
+// they are only exported on request.
+function buildProviderBundle(
+  providers: { ref: ProviderRef; provider: any }[],
+  options: { includeHeaders: boolean; includeQuery: boolean },
+): { bundle: ProviderBundle; omitted: string[] } {
+  const omitted: string[] = [];
+  const entries = providers.map(({ ref, provider }): BundleProvider => {
+    const label = providerLabel(ref);
+    const settings = Object.fromEntries(
+      Object.entries<any>(provider).filter(([key]) => {
+        if (!SECRET_KEY_PATTERN.test(key)) return true;
+        omitted.push(`${label}: "${key}"`);
+        return false;
+      }),
+    );
+
+    const { headers, query, ...request } = readProviderRequestConfig(ref);
+    if (headers && !options.includeHeaders) {
+      omitted.push(`${label}: headers ${Object.keys(headers).join(", ")} (--include-headers)`);
+    }
+    if (query && !options.includeQuery) {
+      omitted.push(`${label}: query parameters ${Object.keys(query).join(", ")} (--include-query)`);
+    }
+    const exported: ProviderRequestConfig = {
+      ...request,
+      ...(headers && options.includeHeaders ? { headers } : {}),
+      ...(query && options.includeQuery ? { query } : {}),
+    };
+
+    return {
+      family: ref.family,
+      name: ref.name,
+      env_var: providerEnvVarName(ref),
+      settings,
+      ...(Object.keys(exported).length > 0 ? { request: exported } : {}),
+    };
+  });
+
+  return {
+    bundle: {
+      zed_api_bundle: BUNDLE_VERSION,
+      exported_at: new Date().toISOString(),
+      providers: entries,
+    },
+    omitted,
+  };
+}
+
+function parseProviderBundle(bundleText: string, source: string): ProviderBundle {
+  const fail = (message: string): never => exitWithError(`Invalid bundle ${source}: ${message}`);
+
+  let raw: any;
+  try {
+    raw = JSON.parse(bundleText);
+  } catch {
+    fail("not valid JSON");
+  }
+  if (raw?.zed_api_bundle !== BUNDLE_VERSION) {
+    fail(`expected "zed_api_bundle": ${BUNDLE_VERSION}`);
+  }
+  if (!Array.isArray(raw.providers) || raw.providers.length === 0) {
+    fail('expected a non-empty "providers" list');
+  }
+
+  const providers = raw.providers.map((entry: any): BundleProvider => {
+    const family = PROVIDER_FAMILIES[entry?.family as ProviderFamilyId];
+    if (!family) {
+      fail(`unknown family "${entry?.family}" (${Object.keys(PROVIDER_FAMILIES).join(", ")})`);
+    }
+    if (family.multiInstance && (typeof entry.name !== "string" || !entry.name)) {
+      fail("an openai_compatible provider has no \"name\"");
+    }
+    const name = family.multiInstance ? entry.name : family.id;
+    if (
+      !entry.settings ||
+      typeof entry.settings !== "object" ||
+      !Array.isArray(entry.settings.available_models)
+    ) {
+      fail(`provider "${name}" needs "settings" with an "available_models" list`);
+    }
+    if (entry.request !== undefined && (!entry.request || typeof entry.request !== "object")) {
+      fail(`provider "${name}" has an invalid "request"`);
+    }
+    return {
+      family: family.id,
+      name,
+      env_var: entry.env_var,
+      settings: entry.settings,
+      request: entry.request,
+    };
+  });
+
+  return { ...raw, providers };
+}
+
+// A file path, an http(s) URL, or "-" (or nothing, when piped) for stdin.
+async function readBundleSource(source?: string): Promise<{ text: string; label: string }> {
+  if (!source || source === "-") {
+    if (process.stdin.isTTY) {
+      exitWithError("No bundle given; pass a file or URL, or pipe one into stdin");
+    }
+    return { text: readFileSync(0, "utf-8"), label: "from stdin" };
+  }
+
+  if (/^https?:\/\//.test(source)) {
+    if (runtimeOptions.offline) {
+      exitWithError("Importing from a URL needs the network and cannot run --offline");
+    }
+    let response: Response;
+    try {
+      response = await networkFetch(source);
+    } catch (error) {
+      exitWithError(
+        `Cannot fetch ${source}: ${describeRequestError(error, runtimeOptions.requestTimeoutSeconds * 1000)}`,
+      );
+    }
+    if (!response.ok) {
+      exitWithError(`Cannot fetch ${source}: ${await describeHttpError(response)}`);
+    }
+    return { text: await response.text(), label: source };
+  }
+
+  if (!existsSync(source)) exitWithError(`Bundle not found: ${source}`);
+  return { text: readFileSync(source, "utf-8"), label: source };
+}
+
+function bundleProviderRef(entry: BundleProvider): ProviderRef {
+  return { family: entry.family, name: entry.name };
+}
+
+// First free "<name>-<n>", counting names already claimed by this import.
+function uniqueProviderName(settings: any, name: string, claimed: Set<string>): string {
+  for (let n = 2; ; n++) {
+    const candidate = `${name}-${n}`;
+    if (!claimed.has(candidate) && !getConfiguredProvider(settings, openAICompatibleRef(candidate))) {
+      return candidate;
+    }
+  }
+}
+
+function knownProviderHosts(): Set<string> {
+  const urls = [
+    ...listProviderPresets().map((preset) => preset.api_url),
+    ...Object.values(PROVIDER_FAMILIES).map((family) => family.defaultApiUrl),
+  ];
+  return new Set(urls.filter((url) => url !== undefined).map((url) => new URL(url).hostname));
+}
+
+// Zed sends a provider's API key to its api_url, so a bundle URL needs the
+// user's confirmation unless it keeps the configured URL or, for a provider
+// that is not configured yet, points at the host of a preset or built-in family.
+function bundleApiUrlConcern(item: BundleImport, settings: any): string | undefined {
+  if (item.action === "skip") return undefined;
+  const apiUrl = providerApiUrl(item.ref, item.entry.settings);
+  if (item.action === "overwrite") {
+    const current = providerApiUrl(item.ref, getConfiguredProvider(settings, item.ref));
+    return current === apiUrl ? undefined : `replaces ${current}`;
+  }
+  let hostname: string;
+  try {
+    hostname = new URL(apiUrl).hostname;
+  } catch {
+    return "not a valid URL";
+  }
+  return knownProviderHosts().has(hostname) ? undefined : "not a known provider host";
+}
+
+function printBundleImports(imports: BundleImport[], settings: any) {
+  console.log("\n📝 Changes:\n");
+  for (const item of imports) {
+    const { entry, ref, action } = item;
+    const models = `${entry.settings.available_models.length} model(s)`;
+    if (action === "add") console.log(`  ➕ Add ${providerLabel(ref)} (${models})`);
+    if (action === "overwrite") console.log(`  ♻️  Overwrite ${providerLabel(ref)} (${models})`);
+    if (action === "rename") {
+      console.log(`  ➕ Add ${entry.name} as ${providerLabel(ref)} (${models})`);
+    }
+    if (action === "skip") {
+      console.log(`  ⏭️  Skip ${providerLabel(ref)} (already configured)`);
+      continue;
+    }
+    const concern = bundleApiUrlConcern(item, settings);
+    const apiUrl = providerApiUrl(ref, entry.settings);
+    console.log(`     ${concern ? `⚠️  api_url: ${apiUrl} (${concern})` : `api_url: ${apiUrl}`}`);
+    for (const line of describeProviderRequestConfig(entry.request ?? {})) {
+      console.log(`     ${line.startsWith("TLS:") ? "⚠️  " : ""}${line}`);
+    }
+  }
+  console.log("");
+}
+
+// Request settings decide where keys are sent and whether certificates are
+// checked, so a bundle's are only applied once the user accepts them.
+function hasBundleRequestSettings(imports: BundleImport[]): boolean {
+  return imports.some(
+    ({ entry, action }) => action !== "skip" && Object.keys(entry.request ?? {}).length > 0,
+  );
+}
+
+function withoutBundleRequestSettings(imports: BundleImport[]): BundleImport[] {
+  return imports.map(({ entry: { request: _request, ...entry }, ...item }) => ({ ...item, entry }));
+}
+
+function applyBundleImports(settingsText: string, imports: BundleImport[]): string {
+  let updatedText = settingsText;
+  for (const { entry, ref, action } of imports) {
+    if (action === "skip") continue;
+    // Overwriting replaces the whole block, not just the keys the tool manages
+    if (action === "overwrite") {
+      updatedText = removeProviderFromSettingsText(updatedText, ref);
+    }
+    updatedText = setProviderInSettingsText(updatedText, ref, entry.settings as any);
+  }
+  return updatedText;
+}
+
+// Called after settings.json was written: stores the bundled request settings
+// and says which keys still need to be set.
+function finishBundleImports(imports: BundleImport[]) {
+  const { data: settings } = readZedSettings();
+  for (const { entry, ref, action } of imports) {
+    if (action === "skip") continue;
+    if (entry.request) writeProviderRequestConfig(ref, entry.request);
+
+    const envVarName = providerEnvVarName(ref);
+    const local = isLocalApiUrl(providerApiUrl(ref, getConfiguredProvider(settings, ref)));
+    if (local || resolveApiKey(envVarName)) continue;
+    const renamed = entry.env_var && entry.env_var !== envVarName ? ` (${entry.env_var} in the bundle)` : "";
+    console.log(
+      `🔑 ${providerLabel(ref)} needs ${envVarName}${renamed}: zed-api keys set ${ref.name}`,
+    );
+  }
+}
+
+async function exportProviders() {
+  const { data: settings } = readZedSettings();
+  const configured = listConfiguredProviders(settings);
+  if (configured.length === 0) {
+    console.log("\n📭 No providers to export\n");
+    return;
+  }
+
+  const selected = await multiselect({
+    message: "Select providers to export:",
+    options: configured.map(({ ref, provider }, index) => ({
+      value: index,
+      label: providerLabel(ref),
+      hint: `${provider.available_models?.length || 0} models`,
+    })),
+    initialValues: configured.map((_, index) => index),
+    required: true,
+  });
+  if (typeof selected === "symbol") {
+    return;
+  }
+
+  const includeHeaders = await confirm({
+    message: "Include extra request headers and query parameters? They may contain credentials.",
+    initialValue: false,
+  });
+  if (typeof includeHeaders === "symbol") {
+    return;
+  }
+
+  const outputPath = await text({
+    message: "Write the bundle to:",
+    placeholder: "zed-providers-bundle.json",
+    defaultValue: "zed-providers-bundle.json",
+  });
+  if (typeof outputPath === "symbol") {
+    return;
+  }
+
+  const { bundle, omitted } = buildProviderBundle(
+    selected.map((index) => configured[index]),
+    { includeHeaders, includeQuery: includeHeaders },
+  );
+  writeFileSync(outputPath, JSON.stringify(bundle, null, 2) + "\n", "utf-8");
+  console.log(`\n✅ Exported ${bundle.providers.length} provider(s) to ${outputPath}`);
+  omitted.forEach((item) => console.log(`   ⚠️  Left out ${item}`));
+  console.log("");
+}
+
+async function importProviders() {
+  const source = await text({
+    message: "Bundle file or URL:",
+    placeholder: "zed-providers-bundle.json",
+    validate: (value) => (value ? undefined : "A file or URL is required"),
+  });
+  if (typeof source === "symbol") {
+    return;
+  }
+
+  const { text: bundleText, label } = await readBundleSource(source);
+  const bundle = parseProviderBundle(bundleText, label);
+  const { text: settingsText, data: settings } = readZedSettings();
+
+  const claimed = new Set<string>();
+  const imports: BundleImport[] = [];
+  for (const entry of bundle.providers) {
+    const ref = bundleProviderRef(entry);
+    if (!getConfiguredProvider(settings, ref) && !claimed.has(entry.name)) {
+      claimed.add(entry.name);
+      imports.push({ entry, ref, action: "add" });
+      continue;
+    }
+
+    const multiInstance = PROVIDER_FAMILIES[entry.family].multiInstance;
+    const action = await select({
+      message: `"${providerLabel(ref)}" is already configured:`,
+      options: [
+        { value: "skip", label: "Skip it" },
+        { value: "overwrite", label: "Overwrite it", hint: "replaces the whole block" },
+        // Built-in families have a single block and cannot be renamed.
+        ...(multiInstance ? [{ value: "rename", label: "Import it under another name" }] : []),
+      ],
+    });
+    if (typeof action === "symbol") {
+      return;
+    }
+
+    if (action !== "rename") {
+      imports.push({ entry, ref, action: action as ImportConflictPolicy });
+      continue;
+    }
+    const newName = await text({
+      message: "New provider name:",
+      placeholder: uniqueProviderName(settings, entry.name, claimed),
+      defaultValue: uniqueProviderName(settings, entry.name, claimed),
+      validate: (value) => {
+        if (value && (claimed.has(value) || getConfiguredProvider(settings, openAICompatibleRef(value)))) {
+          return "Provider name already exists";
+        }
+      },
+    });
+    if (typeof newName === "symbol") {
+      return;
+    }
+    claimed.add(newName);
+    imports.push({ entry, ref: openAICompatibleRef(newName), action: "rename" });
+  }
+
+  printBundleImports(imports, settings);
+  if (imports.every((item) => item.action === "skip")) {
+    console.log("⚠️  Nothing to import\n");
+    return;
+  }
+  if (imports.some((item) => bundleApiUrlConcern(item, settings))) {
+    const trusted = await confirm({
+      message: "Zed will send the providers' API keys to the flagged URLs. Import anyway?",
+      initialValue: false,
+    });
+    if (typeof trusted === "symbol" || !trusted) {
+      return;
+    }
+  }
+
+  let accepted = imports;
+  if (hasBundleRequestSettings(imports)) {
+    const requestChoice = await select({
+      message: "The bundle sets request options (listed above):",
+      initialValue: "without",
+      options: [
+        {
+          value: "without",
+          label: "Import without them",
+          hint: "set them later under Authentication, headers and TLS",
+        },
+        { value: "with", label: "Import with them", hint: "only for bundles you trust" },
+        { value: "cancel", label: "Cancel" },
+      ],
+    });
+    if (typeof requestChoice === "symbol" || requestChoice === "cancel") {
+      return;
+    }
+    if (requestChoice === "without") accepted = withoutBundleRequestSettings(imports);
+  }
+
+  const updatedText = applyBundleImports(settingsText, accepted);
+  if (!(await confirmAndWriteSettings(settingsText, updatedText))) {
+    return;
+  }
+  console.log(`\n✅ Imported ${accepted.filter((item) => item.action !== "skip").length} provider(s)`);
+  finishBundleImports(accepted);
+  console.log("");
+}
+
+const DISCOVERY_TIMEOUT_MS = 1500;
+// Probes in flight at once; a /24 with every port is about 2000 of them.
+const DISCOVERY_CONCURRENCY = 64;
+const DISCOVERY_MAX_HOSTS = 1024;
+
+// The ports of the local server presets, e.g. 11434 for Ollama and 8000 for vLLM.
+function discoveryPorts(): number[] {
+  const ports = listProviderPresets()
+    .filter((preset) => isLocalApiUrl(preset.api_url))
+    .map((preset) => Number(new URL(preset.api_url).port));
+  return [...new Set(ports.filter((port) => port > 0))].sort((a, b) => a - b);
+}
+
+// Hosts, host:port pairs and IPv4 CIDR ranges (/22 or smaller), as "host" or
+// "host:port" strings; returns an error message for an invalid target.
+function expandDiscoveryTargets(targets: string[]): { host: string; port?: number }[] | string {
+  const result: { host: string; port?: number }[] = [];
+  for (const target of targets) {
+    const cidr = target.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)\/(\d+)$/);
+    if (cidr) {
+      const octets = cidr.slice(1, 5).map(Number);
+      const bits = Number(cidr[5]);
+      if (octets.some((octet) => octet > 255) || bits > 32) return `Invalid CIDR range "${target}"`;
+      const size = 2 ** (32 - bits);
+      if (size > DISCOVERY_MAX_HOSTS) {
+        return `"${target}" has ${size} addresses; scan at most ${DISCOVERY_MAX_HOSTS} (a /22)`;
+      }
+      const base = (octets.reduce((acc, octet) => acc * 256 + octet, 0) >>> 0) & ~(size - 1);
+      // Skip the network and broadcast addresses of ranges that have them
+      const [first, last] = size > 2 ? [1, size - 2] : [0, size - 1];
+      for (let offset = first; offset <= last; offset++) {
+        const ip = (base + offset) >>> 0;
+        result.push({ host: [24, 16, 8, 0].map((shift) => (ip >>> shift) & 255).join(".") });
+      }
+      continue;
+    }
+
+    const hostPort = target.match(/^([A-Za-z0-9.-]+)(?::(\d+))?$/);
+    if (!hostPort) return `Invalid host "${target}" (expected a host, host:port or CIDR range)`;
+    const port = hostPort[2] ? Number(hostPort[2]) : undefined;
+    if (port !== undefined && (port < 1 || port > 65535)) return `Invalid port in "${target}"`;
+    result.push({ host: hostPort[1], port });
+  }
+  return result;
+}
+
+// Reads the server type from the shape of its model listing: each server
+// reports a distinctive owned_by or per-model fields.
+function identifyServerPreset(models: any[]): ProviderPreset | undefined {
+  const owners = new Set(models.map((m) => m?.owned_by));
+  const has = (field: string) => models.some((m) => m?.[field] !== undefined);
+  if (owners.has("library")) return findProviderPreset("ollama");
+  if (owners.has("organization_owner")) return findProviderPreset("lmstudio");
+  if (owners.has("vllm") || has("max_model_len")) return findProviderPreset("vllm");
+  if (owners.has("llamacpp") || models.some((m) => m?.meta?.n_ctx_train !== undefined)) {
+    return findProviderPreset("llamacpp");
+  }
+  return undefined;
+}
+
+function discoveredServer(
+  host: string,
+  port: number,
+  identified: ProviderPreset | undefined,
+  fields: Pick<DiscoveredServer, "models" | "needsKey">,
+): DiscoveredServer {
+  const byPort = listProviderPresets().find(
+    (preset) => isLocalApiUrl(preset.api_url) && Number(new URL(preset.api_url).port) === port,
+  );
+  const base = identified ?? byPort;
+  const local = isLocalApiUrl(`http://${host}`);
+  const preset: ProviderPreset = base
+    ? { ...base }
+    : {
+        id: "openai-compatible",
+        label: "OpenAI-compatible server",
+        family: "openai_compatible",
+        name: "Local",
+        api_url: `http://${host}:${port}/v1`,
+        source: "built-in",
+      };
+
+  const url = new URL(preset.api_url);
+  url.hostname = host;
+  url.port = String(port);
+  preset.api_url = trimTrailingSlashes(url.toString());
+  // Servers on other machines get the host in their name, e.g. "vLLM-gpu-box"
+  if (PROVIDER_FAMILIES[preset.family].multiInstance) {
+    preset.name = local ? (base ? preset.name : `Local-${port}`) : `${preset.name}-${host}`;
+  }
+
+  return {
+    host,
+    port,
+    apiUrl: preset.api_url,
+    preset,
+    identifiedBy: identified ? "response" : base ? "port" : "none",
+    ...fields,
+  };
+}
+
+async function probeInferenceServer(host: string, port: number): Promise<DiscoveredServer | null> {
+  const get = async (path: string) => {
+    try {
+      const response = await networkFetch(`http://${host}:${port}${path}`, {}, {
+        timeoutMs: DISCOVERY_TIMEOUT_MS,
+        retries: 0,
+      });
+      const body: any = response.ok ? await response.json().catch(() => undefined) : undefined;
+      return { status: response.status, body };
+    } catch {
+      return null;
+    }
+  };
+
+  const listing = await get("/v1/models");
+  if (!listing) return null;
+  if (listing.status === 401 || listing.status === 403) {
+    return discoveredServer(host, port, undefined, { models: [], needsKey: true });
+  }
+  const body = listing.body;
+  if (Array.isArray(body) || Array.isArray(body?.data) || Array.isArray(body?.models)) {
+    const models = parseOpenAIStyleModels(body);
+    return discoveredServer(host, port, identifyServerPreset(models), {
+      models: models.map((m) => m.id),
+      needsKey: false,
+    });
+  }
+
+  // Ollama versions without the OpenAI-compatible API
+  const tags = await get("/api/tags");
+  if (Array.isArray(tags?.body?.models)) {
+    return discoveredServer(host, port, findProviderPreset("ollama"), {
+      models: PROVIDER_FAMILIES.ollama.parseModels(tags.body).map((m) => m.id),
+      needsKey: false,
+    });
+  }
+  return null;
+}
+
+// Probes every port of every target (localhost always included), a batch of
+// DISCOVERY_CONCURRENCY at a time.
+async function discoverInferenceServers(
+  targets: { host: string; port?: number }[],
+  ports: number[],
+): Promise<DiscoveredServer[]> {
+  // 127.0.0.1 and the like are the same server as localhost
+  const probes = [{ host: "localhost" }, ...targets].flatMap(({ host, port }) =>
+    (port ? [port] : ports).map((p) => ({
+      host: isLocalApiUrl(`http://${host}`) ? "localhost" : host,
+      port: p,
+    })),
+  );
+  const unique = [...new Map(probes.map((probe) => [`${probe.host}:${probe.port}`, probe])).values()];
+
+  const found: DiscoveredServer[] = [];
+  for (let i = 0; i < unique.length; i += DISCOVERY_CONCURRENCY) {
+    const batch = unique.slice(i, i + DISCOVERY_CONCURRENCY);
+    const results = await Promise.all(batch.map(({ host, port }) => probeInferenceServer(host, port)));
+    found.push(...results.filter((result): result is DiscoveredServer => result !== null));
+  }
+  return found;
+}
+
+// The configured provider that already points at the server, if any.
+function configuredProviderFor(settings: any, server: DiscoveredServer): ProviderRef | undefined {
+  const serverUrl = PROVIDER_FAMILIES[server.preset.family].normalizeApiUrl(server.apiUrl);
+  const ports = (url: string) => {
+    try {
+      const { hostname, port } = new URL(url);
+      return `${isLocalApiUrl(url) ? "localhost" : hostname}:${port}`;
+    } catch {
+      return url;
+    }
+  };
+  return listConfiguredProviders(settings).find(
+    ({ ref, provider }) => ports(providerApiUrl(ref, provider)) === ports(serverUrl),
+  )?.ref;
+}
+
+function describeDiscoveredServer(server: DiscoveredServer): string {
+  const kind =
+    server.identifiedBy === "port" ? `${server.preset.label}?` : server.preset.label;
+  const models = server.needsKey ? "needs an API key" : `${server.models.length} model(s)`;
+  return `${kind} at ${server.apiUrl} (${models})`;
+}
+
+function printDiscoveredServers(servers: DiscoveredServer[], settings: any) {
+  console.log(`🔎 Found ${servers.length} server(s):\n`);
+  for (const server of servers) {
+    const configured = configuredProviderFor(settings, server);
+    console.log(`  ${describeDiscoveredServer(server)}`);
+    if (configured) {
+      console.log(`     already configured as ${providerLabel(configured)}`);
+      continue;
+    }
+    const family = PROVIDER_FAMILIES[server.preset.family];
+    const name = family.multiInstance ? ` ${server.preset.name}` : "";
+    const preset = server.identifiedBy === "none" ? "" : ` --preset ${server.preset.id}`;
+    const keyStep = server.needsKey ? `zed-api keys set ${server.preset.name} && ` : "";
+    console.log(`     ${keyStep}zed-api add${preset}${name} --url ${server.apiUrl} --all`);
+  }
+  if (servers.some((server) => server.identifiedBy === "port")) {
+    console.log("\n  ? guessed from the port; the server's response didn't say");
+  }
+}
+
+async function discoverServers() {
+  if (runtimeOptions.offline) {
+    console.log("\n⚠️  Discovery sends requests and is unavailable with --offline.\n");
+    return;
+  }
+
+  const hostsInput = await text({
+    message: "Also scan these hosts or ranges (localhost is always scanned):",
+    placeholder: "e.g. gpu-box, 192.168.1.0/24, 10.0.0.5:8000 (optional)",
+    validate: (value) => {
+      const targets = expandDiscoveryTargets(splitList(value ? [value] : []));
+      if (typeof targets === "string") return targets;
+    },
+  });
+  if (typeof hostsInput === "symbol") {
+    return;
+  }
+
+  const targets = expandDiscoveryTargets(splitList(hostsInput ? [hostsInput] : []));
+  const ports = discoveryPorts();
+  const s = spinner();
+  s.start(`Probing ports ${ports.join(", ")}`);
+  const servers = await discoverInferenceServers(targets as { host: string; port?: number }[], ports);
+  s.stop(`Probed ports ${ports.join(", ")}`);
+
+  if (servers.length === 0) {
+    console.log("\n📭 No inference servers found\n");
+    return;
+  }
+
+  while (true) {
+    const { data: settings } = readZedSettings();
+    console.log("");
+    printDiscoveredServers(servers, settings);
+    console.log("");
+
+    const unconfigured = servers.filter((server) => !configuredProviderFor(settings, server));
+    if (unconfigured.length === 0) {
+      console.log("✅ Every server found is configured\n");
+      return;
+    }
+    const choice = await select({
+      message: "Register a server:",
+      options: [
+        ...unconfigured.map((server, index) => ({
+          value: index,
+          label: describeDiscoveredServer(server),
+        })),
+        { value: -1, label: "Done" },
+      ],
+    });
+    if (typeof choice === "symbol" || choice === -1) {
+      return;
+    }
+    await addProvider(unconfigured[choice].preset);
+  }
+}
+
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+type CliValues = Record<string, string | boolean | undefined>;
+
+interface CliCommand {
+  usage: string[];
+  summary: string;
+  // Printed after the summary by `<command> --help`.
+  notes?: string[];
+  options?: Record<string, { type: "string" | "boolean"; short?: string; multiple?: boolean }>;
+  run: (args: string[], values: CliValues) => Promise<number>;
+}
+
+const GLOBAL_CLI_OPTIONS: NonNullable<CliCommand["options"]> = {
+  help: { type: "boolean", short: "h" },
+  "dry-run": { type: "boolean" },
+  refresh: { type: "boolean" },
+  offline: { type: "boolean" },
+  settings: { type: "string" },
+  project: { type: "boolean" },
+  "ca-file": { type: "string" },
+  proxy: { type: "string" },
+  "request-timeout": { type: "string" },
+  retries: { type: "string" },
+};
+
+function splitList(values: string[]): string[] {
+  return values
+    .flatMap((v) => v.split(","))
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function parsePositiveInt(value: string | boolean | undefined, fallback: number): number | null {
+  if (value === undefined) return fallback;
+  const num = Number(value);
+  return Number.isInteger(num) && num > 0 ? num : null;
+}
+
+function usageError(commandName: string, message: string): number {
+  console.error(`⚠️  ${message}\n`);
+  console.error(formatCommandUsage(commandName));
+  return EXIT_USAGE;
+}
+
+function readProviders(): { settingsText: string; providers: Record<string, Provider> } {
+  const { text: settingsText, data: settings } = readZedSettings();
+  return {
+    settingsText,
+    providers: settings?.language_models?.openai_compatible || {},
+  };
+}
+
+async function cliAdd(args: string[], values: CliValues): Promise<number> {
+  let preset: ProviderPreset | null = null;
+  if (values.preset !== undefined) {
+    if (values.family !== undefined) return usageError("add", "Use either --preset or --family, not both");
+    preset = findProviderPreset(values.preset as string) ?? null;
+    if (!preset) {
+      return usageError("add", `Unknown --preset "${values.preset}" (see zed-api presets)`);
+    }
+  }
+
+  const familyId = preset?.family ?? (values.family as string | undefined) ?? "openai_compatible";
+  const family = PROVIDER_FAMILIES[familyId as ProviderFamilyId];
+  if (!family) {
+    return usageError(
+      "add",
+      `Unknown --family "${familyId}" (${Object.keys(PROVIDER_FAMILIES).join(", ")})`,
+    );
+  }
+
+  // A preset names the provider unless a name is given
+  if (family.multiInstance && (args.length > 1 || (args.length === 0 && !preset))) {
+    return usageError("add", "Expected exactly one provider name");
+  }
+  if (!family.multiInstance && args.length > 0) {
+    return usageError("add", `--family ${family.id} configures language_models.${family.id}; omit the name`);
+  }
+  const ref: ProviderRef = family.multiInstance
+    ? openAICompatibleRef(args[0] ?? preset!.name)
+    : { family: family.id, name: family.id };
+
+  const apiUrl = (values.url as string | undefined) ?? preset?.api_url ?? family.defaultApiUrl;
+  if (!apiUrl) return usageError("add", "--url is required");
+  if (!apiUrl.startsWith("http://") && !apiUrl.startsWith("https://")) {
+    return usageError("add", "URL must start with http:// or https://");
+  }
+
+  const requestedIds = splitList(values.models ? [values.models as string] : []);
+  const selections = [values.all, requestedIds.length > 0, values.recommended].filter(Boolean);
+  if (selections.length > 1) {
+    return usageError("add", "Use only one of --models, --all and --recommended");
+  }
+  if (selections.length === 0) {
+    return usageError("add", "Specify models with --models a,b, --recommended or --all");
+  }
+  if (values.recommended && !preset?.models?.length) {
+    return usageError("add", "--recommended needs a --preset with recommended models");
+  }
+
+  const defaultMaxTokens = parsePositiveInt(values["max-tokens"], 8192);
+  if (defaultMaxTokens === null) return usageError("add", "--max-tokens must be a positive integer");
+  if (values.probe && probeableCapabilities(family).length === 0) {
+    return usageError("add", `--probe is not supported for ${family.label}`);
+  }
+  if (values.probe && runtimeOptions.offline) {
+    return usageError("add", "--probe sends requests and cannot run --offline");
+  }
+
+  const { data: settings } = readZedSettings();
+  if (getConfiguredProvider(settings, ref)) {
+    console.error(
+      `⚠️  Provider "${providerLabel(ref)}" already exists. Use "zed-api models add" to update it.`,
+    );
+    return EXIT_FAILURE;
+  }
+
+  const normalizedApiUrl = family.normalizeApiUrl(apiUrl);
+  const envVarName = providerEnvVarName(ref);
+  const { apiKey, from: apiKeyFrom } = resolvePresetApiKey(envVarName, preset);
+  if (apiKeyFrom) console.log(`🔑 Using the key in ${apiKeyFrom}; Zed reads ${envVarName}`);
+  // The preset's authentication style applies to the requests below
+  if (preset?.request && Object.keys(readProviderRequestConfig(ref)).length === 0) {
+    pendingRequestConfigs.set(providerConfigKey(ref), preset.request);
+  }
+  const fetchedModels = await fetchModels(
+    family.modelsEndpoint(normalizedApiUrl),
+    apiKey,
+    ref,
+  );
+
+  const fetchedIds = new Set(fetchedModels.map((m) => m.id));
+  const unknown = requestedIds.filter((id) => !fetchedIds.has(id));
+  if (unknown.length > 0) {
+    console.error(`⚠️  Models not served by ${apiUrl}: ${unknown.join(", ")}`);
+    return EXIT_FAILURE;
+  }
+
+  let selectedModelIds = values.all ? fetchedModels.map((m) => m.id) : requestedIds;
+  if (values.recommended) {
+    const recommended = recommendedModelIds(preset!, fetchedModels);
+    if (recommended.missing.length > 0) {
+      console.error(`⚠️  Not served by ${apiUrl}: ${recommended.missing.join(", ")}`);
+    }
+    if (recommended.served.length === 0) return EXIT_FAILURE;
+    selectedModelIds = recommended.served;
+  }
+  const availableModels = applyPresetOverrides(
+    family,
+    await buildAvailableModels(
+      selectedModelIds,
+      fetchedModels,
+      defaultMaxTokens,
+      family,
+      values.probe
+        ? chatProbeTarget(ref, normalizedApiUrl, PROBE_TIMEOUT_SECONDS * 1000)
+        : null,
+    ),
+    preset,
+  );
+
+  const { text: settingsText } = readZedSettings();
+  const written = await confirmAndWriteSettings(
+    settingsText,
+    setProviderInSettingsText(settingsText, ref, {
+      api_url: normalizedApiUrl,
+      available_models: availableModels,
+    }),
+  );
+  if (!written) return EXIT_OK;
+  savePendingRequestConfig(ref);
+
+  console.log(
+    `✅ Successfully configured provider "${providerLabel(ref)}" with ${availableModels.length} models!`,
+  );
+  if (!apiKey || apiKeyFrom) {
+    console.log(
+      `💡 To use this provider, run: zed-api keys set ${ref.name} && zed-api shell add ${ref.name}`,
+    );
+  }
+  return EXIT_OK;
+}
+
+async function cliPresets(args: string[], values: CliValues): Promise<number> {
+  if (args.length > 0) return usageError("presets", "presets takes no arguments");
+  const presets = listProviderPresets();
+  if (values.json) {
+    console.log(JSON.stringify(presets, null, 2));
+    return EXIT_OK;
+  }
+
+  const idWidth = Math.max(...presets.map((preset) => preset.id.length));
+  console.log("📚 Provider presets:\n");
+  for (const preset of presets) {
+    const local = preset.source === "local" ? " (local)" : "";
+    console.log(`  ${preset.id.padEnd(idWidth)}  ${preset.label}${local}`);
+    console.log(`  ${"".padEnd(idWidth)}  ${preset.api_url}`);
+  }
+  console.log(`\n💡 Add your own in ${tildify(PRESETS_PATH)}; use one with zed-api add --preset <id>`);
+  return EXIT_OK;
+}
+
+async function cliList(args: string[], values: CliValues): Promise<number> {
+  if (args.length > 0) return usageError("list", "list takes no arguments");
+
+  if (!values.json) {
+    await listProviders();
+    return EXIT_OK;
+  }
+
+  const { data: settings } = readZedSettings();
+  const list = listConfiguredProviders(settings).map(({ ref, provider }) => ({
+    name: ref.name,
+    family: ref.family,
+    api_url: providerApiUrl(ref, provider),
+    available_models: provider.available_models || [],
+  }));
+  console.log(JSON.stringify(list, null, 2));
+  return EXIT_OK;
+}
+
+// Accepts an openai_compatible provider name or a family ID such as "ollama".
+function resolveCliProvider(settings: any, key: string): ProviderRef | null {
+  const ref = resolveProviderRef(settings, key);
+  if (!ref) console.error(`⚠️  Provider "${key}" not found`);
+  return ref;
+}
+
+async function cliDelete(args: string[], values: CliValues): Promise<number> {
+  if (args.length !== 1) return usageError("delete", "Expected exactly one provider name");
+
+  const { text: settingsText, data: settings } = readZedSettings();
+  const ref = resolveCliProvider(settings, args[0]);
+  if (!ref) return EXIT_FAILURE;
+
+  if (!values.yes && !runtimeOptions.dryRun) {
+    return usageError("delete", `Refusing to delete "${providerLabel(ref)}" without --yes`);
+  }
+
+  const updatedText = removeProviderFromSettingsText(settingsText, ref);
+  if (!(await confirmAndWriteSettings(settingsText, updatedText))) return EXIT_OK;
+  console.log(`✅ Successfully deleted provider "${providerLabel(ref)}"`);
+  removeProviderShellExport(ref, updatedText);
+  removeProviderRequestConfig(ref);
+  return EXIT_OK;
+}
+
+async function cliModels(args: string[], values: CliValues): Promise<number> {
+  const [action, providerName, ...rest] = args;
+  if (!["add", "remove", "rename", "order"].includes(action)) {
+    return usageError("models", "Expected \"models add\", \"remove\", \"rename\" or \"order\"");
+  }
+  const modelIds = splitList(rest);
+  if (!providerName || (modelIds.length === 0 && action !== "rename")) {
+    return usageError("models", "Expected a provider name and at least one model ID");
+  }
+  if (action === "rename") {
+    if (!values.template) {
+      return usageError("models", "models rename needs --template");
+    }
+    const invalid = validateDisplayNameTemplate(values.template as string);
+    if (invalid) return usageError("models", invalid);
+  }
+
+  const { data: settings } = readZedSettings();
+  const ref = resolveCliProvider(settings, providerName);
+  if (!ref) return EXIT_FAILURE;
+  const family = PROVIDER_FAMILIES[ref.family];
+  const provider = getConfiguredProvider(settings, ref);
+  const label = providerLabel(ref);
+
+  const existingModels: FamilyModel[] = provider.available_models || [];
+  const existingNames = new Set(existingModels.map((m) => m.name));
+
+  if (action === "rename" || action === "order") {
+    const unknown = modelIds.filter((id) => !existingNames.has(id));
+    if (unknown.length > 0) {
+      console.error(`⚠️  Models not configured in "${label}": ${unknown.join(", ")}`);
+      return EXIT_FAILURE;
+    }
+  }
+
+  if (action === "rename") {
+    const targets = new Set(modelIds.length > 0 ? modelIds : existingNames);
+    const { text: settingsText } = readZedSettings();
+    let updatedText = settingsText;
+    let renamed = 0;
+    existingModels.forEach((model, index) => {
+      if (!targets.has(model.name)) return;
+      const displayName =
+        applyDisplayNameTemplate(values.template as string, model, ref) || model.name;
+      if (displayName === model.display_name) return;
+      renamed++;
+      updatedText = modifySettingsText(
+        updatedText,
+        [...providerSettingsPath(ref), "available_models", index, "display_name"],
+        displayName,
+      );
+    });
+    if (renamed === 0) {
+      console.log(`⚠️  Display names in "${label}" already match the template`);
+      return EXIT_OK;
+    }
+    if (!(await confirmAndWriteSettings(settingsText, updatedText))) return EXIT_OK;
+    console.log(`✅ Renamed ${renamed} model(s) in "${label}"`);
+    return EXIT_OK;
+  }
+
+  if (action === "order") {
+    // The listed models move to the front; the rest keep their relative order.
+    const front = new Set(modelIds);
+    const ordered = [
+      ...modelIds.map((id) => existingModels.find((m) => m.name === id)!),
+      ...existingModels.filter((m) => !front.has(m.name)),
+    ];
+    if (ordered.every((m, index) => m === existingModels[index])) {
+      console.log(`⚠️  Models in "${label}" are already in that order`);
+      return EXIT_OK;
+    }
+    const { text: settingsText } = readZedSettings();
+    const updatedText = setProviderModelsInSettingsText(settingsText, ref, ordered);
+    if (!(await confirmAndWriteSettings(settingsText, updatedText))) return EXIT_OK;
+    console.log(`✅ Reordered models of "${label}"`);
+    return EXIT_OK;
+  }
+
+  if (action === "remove") {
+    const unknown = modelIds.filter((id) => !existingNames.has(id));
+    if (unknown.length > 0) {
+      console.error(`⚠️  Models not configured in "${label}": ${unknown.join(", ")}`);
+      return EXIT_FAILURE;
+    }
+
+    const removals = new Set(modelIds);
+    const { text: settingsText } = readZedSettings();
+    const updatedText = setProviderModelsInSettingsText(
+      settingsText,
+      ref,
+      existingModels.filter((m) => !removals.has(m.name)),
+    );
+    if (!(await confirmAndWriteSettings(settingsText, updatedText))) return EXIT_OK;
+    console.log(`✅ Removed ${removals.size} model(s) from "${label}"`);
+    return EXIT_OK;
+  }
+
+  const defaultMaxTokens = parsePositiveInt(values["max-tokens"], 8192);
+  if (defaultMaxTokens === null) {
+    return usageError("models", "--max-tokens must be a positive integer");
+  }
+  if (values.probe && probeableCapabilities(family).length === 0) {
+    return usageError("models", `--probe is not supported for ${family.label}`);
+  }
+  if (values.probe && runtimeOptions.offline) {
+    return usageError("models", "--probe sends requests and cannot run --offline");
+  }
+
+  const additions = modelIds.filter((id) => !existingNames.has(id));
+  if (additions.length === 0) {
+    console.log(`⚠️  All models are already configured in "${label}"`);
+    return EXIT_OK;
+  }
+
+  const apiUrl = providerApiUrl(ref, provider);
+  const apiKey = resolveApiKey(providerEnvVarName(ref));
+  const fetchedModels = await fetchModels(family.modelsEndpoint(apiUrl), apiKey, ref);
+
+  const fetchedIds = new Set(fetchedModels.map((m) => m.id));
+  const unknown = additions.filter((id) => !fetchedIds.has(id));
+  if (unknown.length > 0) {
+    console.error(`⚠️  Models not served by ${apiUrl}: ${unknown.join(", ")}`);
+    return EXIT_FAILURE;
+  }
+
+  const newModels = await buildAvailableModels(
+    additions,
+    fetchedModels,
+    defaultMaxTokens,
+    family,
+    values.probe ? chatProbeTarget(ref, apiUrl, PROBE_TIMEOUT_SECONDS * 1000) : null,
+  );
+  const { text: settingsText } = readZedSettings();
+  const updatedText = setProviderModelsInSettingsText(settingsText, ref, [
+    ...existingModels,
+    ...newModels,
+  ]);
+  if (!(await confirmAndWriteSettings(settingsText, updatedText))) return EXIT_OK;
+  console.log(`✅ Added ${newModels.length} model(s) to "${label}"`);
+  return EXIT_OK;
+}
+
+async function cliRename(args: string[]): Promise<number> {
+  if (args.length !== 2) return usageError("rename", "Expected <old-name> <new-name>");
+  const [oldName, newName] = args;
+
+  const { settingsText, providers } = readProviders();
+  if (!providers[oldName]) {
+    console.error(`⚠️  Provider "${oldName}" not found`);
+    return EXIT_FAILURE;
+  }
+  if (oldName === newName) {
+    return usageError("rename", "Name unchanged");
+  }
+  if (providers[newName]) {
+    console.error(`⚠️  Provider "${newName}" already exists`);
+    return EXIT_FAILURE;
+  }
+
+  const updatedText = renameProviderInSettingsText(settingsText, oldName, newName);
+  if (!(await confirmAndWriteSettings(settingsText, updatedText))) return EXIT_OK;
+  console.log(`✅ Successfully renamed "${oldName}" to "${newName}"`);
+  moveApiKey(deriveEnvVarName(oldName), deriveEnvVarName(newName));
+  moveProviderRequestConfig(openAICompatibleRef(oldName), openAICompatibleRef(newName));
+  return EXIT_OK;
+}
+
+const MISSING_MODEL_POLICIES = ["keep", "drop", "map"];
+
+async function cliSetUrl(args: string[], values: CliValues): Promise<number> {
+  if (args.length !== 2) return usageError("set-url", "Expected <provider> <url>");
+  const [providerName, url] = args;
+  if (!url.startsWith("http://") && !url.startsWith("https://")) {
+    return usageError("set-url", "URL must start with http:// or https://");
+  }
+  const policy = (values.missing as string | undefined) ?? "keep";
+  if (!MISSING_MODEL_POLICIES.includes(policy)) {
+    return usageError("set-url", `--missing must be one of ${MISSING_MODEL_POLICIES.join(", ")}`);
+  }
+
+  const { text: settingsText, data: settings } = readZedSettings();
+  const ref = resolveCliProvider(settings, providerName);
+  if (!ref) return EXIT_FAILURE;
+  const family = PROVIDER_FAMILIES[ref.family];
+  const provider = getConfiguredProvider(settings, ref);
+  const currentUrl = providerApiUrl(ref, provider);
+  const apiUrl = family.normalizeApiUrl(url);
+  if (apiUrl === currentUrl) {
+    console.log(`⚠️  "${providerLabel(ref)}" already uses ${apiUrl}`);
+    return EXIT_OK;
+  }
+
+  const apiKey = resolveApiKey(providerEnvVarName(ref));
+  const fetchedModels = await fetchModels(family.modelsEndpoint(apiUrl), apiKey, ref);
+
+  const models: FamilyModel[] = provider.available_models || [];
+  const servedIds = new Set(fetchedModels.map((m) => m.id));
+  const taken = new Set(models.filter((m) => servedIds.has(m.name)).map((m) => m.name));
+  const changes = { mapped: [] as string[], dropped: [] as string[], kept: [] as string[] };
+  const availableModels: FamilyModel[] = [];
+  for (const model of models) {
+    if (servedIds.has(model.name)) {
+      availableModels.push(model);
+      continue;
+    }
+    if (policy === "drop") {
+      changes.dropped.push(model.name);
+      continue;
+    }
+    // Models without a close match are kept under --missing map
+    const match =
+      policy === "map"
+        ? rankModelMatches(model.name, fetchedModels.filter((m) => !taken.has(m.id)))[0]
+        : undefined;
+    if (match) {
+      taken.add(match.id);
+      availableModels.push(remapModel(model, match.id));
+      changes.mapped.push(`${model.name} → ${match.id}`);
+    } else {
+      availableModels.push(model);
+      changes.kept.push(model.name);
+    }
+  }
+
+  printUrlChange({ from: currentUrl, to: apiUrl }, changes);
+
+  const updatedText = setProviderInSettingsText(settingsText, ref, {
+    api_url: apiUrl,
+    available_models: availableModels,
+  });
+  if (!(await confirmAndWriteSettings(settingsText, updatedText))) return EXIT_OK;
+  console.log(`✅ "${providerLabel(ref)}" now uses ${apiUrl}`);
+  return EXIT_OK;
+}
+
+async function cliPlan(args: string[]): Promise<number> {
+  if (args.length > 1) return usageError("plan", "Expected at most one manifest path");
+  const manifestPath = findManifestPath(args[0]);
+  const manifest = parseManifest(readFileSync(manifestPath, "utf-8"), manifestPath);
+
+  printManifestPlan(await planManifest(manifest));
+  return EXIT_OK;
+}
+
+async function cliApply(args: string[]): Promise<number> {
+  if (args.length > 1) return usageError("apply", "Expected at most one manifest path");
+  const manifestPath = findManifestPath(args[0]);
+  const manifest = parseManifest(readFileSync(manifestPath, "utf-8"), manifestPath);
+
+  const plans = await planManifest(manifest);
+  printManifestPlan(plans);
+  if (plans.every((p) => p.action === "unchanged")) return EXIT_OK;
+
+  const { settingsText } = readProviders();
+  const updatedText = applyManifestPlan(settingsText, plans);
+  if (!(await confirmAndWriteSettings(settingsText, updatedText))) return EXIT_OK;
+  console.log(`✅ Applied ${manifestPath}`);
+  return EXIT_OK;
+}
+
+function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toPrecision(2)}` : `$${cost.toFixed(2)}`;
+}
+
+async function cliCost(args: string[], values: CliValues): Promise<number> {
+  const [providerName, ...rest] = args;
+  const modelNames = splitList(rest);
+
+  const inputTokens =
+    values.input === undefined ? 1_000_000 : parseTokenCount(String(values.input));
+  const outputTokens =
+    values.output === undefined ? 1_000_000 : parseTokenCount(String(values.output));
+  if (inputTokens === undefined || outputTokens === undefined) {
+    return usageError("cost", "--input and --output take a token count such as 50000, 200k or 1m");
+  }
+  if (inputTokens + outputTokens === 0) {
+    return usageError("cost", "--input and --output cannot both be 0");
+  }
+
+  const { data: settings } = readZedSettings();
+  let configured = listConfiguredProviders(settings);
+  if (providerName) {
+    const ref = resolveCliProvider(settings, providerName);
+    if (!ref) return EXIT_FAILURE;
+    configured = configured.filter((c) => providerLabel(c.ref) === providerLabel(ref));
+  }
+
+  const rows: { provider: string; model: string; pricing?: ModelPricing; cost?: number }[] = [];
+  for (const { ref, provider } of configured) {
+    const models: FamilyModel[] = provider.available_models || [];
+    const unknown = modelNames.filter((name) => !models.some((m) => m.name === name));
+    if (unknown.length > 0) {
+      console.error(`⚠️  Models not configured in "${providerLabel(ref)}": ${unknown.join(", ")}`);
+      return EXIT_FAILURE;
+    }
+
+    const pricing = await loadConfiguredPricing(ref, provider, { cacheOnly: false });
+    for (const model of models) {
+      if (modelNames.length > 0 && !modelNames.includes(model.name)) continue;
+      const price = pricing.get(model.name);
+      rows.push({
+        provider: providerLabel(ref),
+        model: model.name,
+        pricing: price,
+        cost: price
+          ? (inputTokens * price.prompt + outputTokens * price.completion) / 1_000_000
+          : undefined,
+      });
+    }
+  }
+
+  if (rows.length === 0) {
+    console.log("📭 No models configured");
+    return EXIT_OK;
+  }
+
+  rows.sort((a, b) => (a.cost ?? Infinity) - (b.cost ?? Infinity));
+  const providerWidth = Math.max(8, ...rows.map((r) => r.provider.length));
+  const modelWidth = Math.max(5, ...rows.map((r) => r.model.length));
+  const price = (value: number | undefined) =>
+    value === undefined ? "?" : value === 0 ? "free" : `$${formatPrice(value)}`;
+
+  console.log(
+    `💰 Estimated cost of ${formatTokenCount(inputTokens)} input + ${formatTokenCount(outputTokens)} output tokens per model:\n`,
+  );
+  console.log(
+    `  ${"Provider".padEnd(providerWidth)}  ${"Model".padEnd(modelWidth)}  ${"In/1M".padStart(8)}  ${"Out/1M".padStart(8)}  ${"Estimate".padStart(10)}  Source`,
+  );
+  for (const row of rows) {
+    console.log(
+      `  ${row.provider.padEnd(providerWidth)}  ${row.model.padEnd(modelWidth)}  ${price(
+        row.pricing?.prompt,
+      ).padStart(8)}  ${price(row.pricing?.completion).padStart(8)}  ${(row.cost === undefined
+        ? "?"
+        : formatCost(row.cost)
+      ).padStart(10)}  ${row.pricing?.source ?? "unknown"}`,
+    );
+  }
+
+  const unpriced = rows.filter((r) => r.cost === undefined).length;
+  if (unpriced > 0) {
+    console.log(`\n💡 No pricing found for ${unpriced} model(s); the provider and OpenRouter list none`);
+  }
+  return EXIT_OK;
+}
+
+async function cliAudit(args: string[], values: CliValues): Promise<number> {
+  if (args.length > 1) return usageError("audit", "Expected at most one provider");
+
+  const { data: settings } = readZedSettings();
+  let configured = listConfiguredProviders(settings);
+  if (args[0]) {
+    const ref = resolveCliProvider(settings, args[0]);
+    if (!ref) return EXIT_FAILURE;
+    configured = configured.filter((c) => providerLabel(c.ref) === providerLabel(ref));
+  }
+  if (configured.length === 0) {
+    console.log("📭 No providers configured");
+    return EXIT_OK;
+  }
+
+  const audits = await runAudit(configured);
+  printProviderAudits(audits);
+
+  const kinds = (["prune", "update", "add"] as const).filter((kind) => values[kind]);
+  const selected = allAuditActionKeys(audits, kinds);
+  if (selected.size > 0) {
+    const { text: settingsText } = readZedSettings();
+    const written = await confirmAndWriteSettings(
+      settingsText,
+      await applyProviderAudits(settingsText, audits, selected),
+    );
+    if (written) console.log(`✅ Applied ${selected.size} change(s)`);
+  }
+
+  const failed = audits.filter((a) => a.error).length;
+  const unresolved = audits.reduce(
+    (count, a) =>
+      count +
+      (values.prune ? 0 : a.missing.length) +
+      (values.update ? 0 : a.drifted.length),
+    0,
+  );
+  const skipped = values.update
+    ? audits.reduce((count, a) => count + a.drifted.filter((d) => d.lowers).length, 0)
+    : 0;
+  if (unresolved > 0) {
+    console.log(`\n💡 ${unresolved} configured model(s) drifted; rerun with --prune and/or --update`);
+  }
+  if (skipped > 0) {
+    console.log(
+      `\n💡 ${skipped} update(s) would lower configured values and were skipped; select them in the interactive audit`,
+    );
+  }
+  return failed > 0 || unresolved > 0 || skipped > 0 ? EXIT_FAILURE : EXIT_OK;
+}
+
+async function cliPaths(args: string[]): Promise<number> {
+  if (args.length > 0) return usageError("paths", "paths takes no arguments");
+
+  const locations = listSettingsLocations();
+  if (!locations.some((location) => location.path === runtimeOptions.settingsPath)) {
+    locations.unshift({
+      label: "--settings",
+      path: runtimeOptions.settingsPath,
+      exists: existsSync(runtimeOptions.settingsPath),
+    });
+  }
+
+  console.log("📂 Settings files:\n");
+  for (const location of locations) {
+    const marker = location.path === runtimeOptions.settingsPath ? "→" : " ";
+    const status = location.exists ? "" : pc.dim("  (not created)");
+    console.log(`${marker} ${location.label.padEnd(22)}${tildify(location.path)}${status}`);
+  }
+  return EXIT_OK;
+}
+
+async function cliHistory(args: string[]): Promise<number> {
+  if (args.length > 0) return usageError("history", "history takes no arguments");
+
+  const snapshots = listSettingsSnapshots();
+  if (snapshots.length === 0) {
+    console.log("📭 No snapshots yet");
+    return EXIT_OK;
+  }
+
+  console.log(`🕘 Snapshots of ${runtimeOptions.settingsPath} (newest first):\n`);
+  for (const snapshot of snapshots) {
+    const when = new Date(snapshot.created_at).toLocaleString();
+    const undoNote = snapshot.undo_of ? ` [undo of ${snapshot.undo_of}]` : "";
+    console.log(
+      `  ${snapshot.id}  ${when}  ${formatProviderChanges(snapshot.changes)}${undoNote}`,
+    );
+  }
+  return EXIT_OK;
+}
+
+async function cliUndo(args: string[]): Promise<number> {
+  if (args.length > 0) return usageError("undo", "undo takes no arguments");
+
+  // Skip snapshots taken by undo itself and the ones already undone, so repeated
+  // undos keep stepping further back instead of toggling.
+  const snapshots = listSettingsSnapshots();
+  const undone = new Set(snapshots.map((s) => s.undo_of).filter(Boolean));
+  const target = snapshots.find((s) => !s.undo_of && !undone.has(s.id));
+
+  if (!target) {
+    console.error("⚠️  Nothing to undo");
+    return EXIT_FAILURE;
+  }
+
+  // A snapshot is the way out of a broken file, so it is not parsed here
+  const settingsText = readSettingsText();
+  const written = await confirmAndWriteSettings(settingsText, target.text, {
+    undoOf: target.id,
+    snapshot: true,
+  });
+  if (!written) return EXIT_OK;
+  console.log(
+    `✅ Reverted ${formatProviderChanges(target.changes)} (restored snapshot ${target.id})`,
+  );
+  return EXIT_OK;
+}
+
+async function cliRestore(args: string[]): Promise<number> {
+  if (args.length !== 1) return usageError("restore", "Expected exactly one snapshot ID");
+
+  const target = listSettingsSnapshots().find((s) => s.id === args[0]);
+  if (!target) {
+    console.error(`⚠️  Snapshot "${args[0]}" not found (see "zed-api history")`);
+    return EXIT_FAILURE;
+  }
+
+  const settingsText = readSettingsText();
+  if (!(await confirmAndWriteSettings(settingsText, target.text, { snapshot: true }))) {
+    return EXIT_OK;
+  }
+  console.log(`✅ Restored snapshot ${target.id}`);
+  return EXIT_OK;
+}
+
+async function cliCheck(args: string[], values: CliValues): Promise<number> {
+  const [providerName, ...rest] = args;
+  const modelNames = splitList(rest);
+
+  const probes = splitList(values.probes ? [values.probes as string] : []);
+  const requestedProbes = probes.includes("all") ? CAPABILITY_KEYS : probes;
+  const unknownProbes = requestedProbes.filter(
+    (p) => !CAPABILITY_KEYS.includes(p as keyof ModelCapabilities),
+  );
+  if (unknownProbes.length > 0) {
+    return usageError(
+      "check",
+      `Unknown probe(s): ${unknownProbes.join(", ")} (${CAPABILITY_KEYS.join(", ")}, all)`,
+    );
+  }
+
+  const timeoutSeconds = parsePositiveInt(values.timeout, PROBE_TIMEOUT_SECONDS);
+  if (timeoutSeconds === null) return usageError("check", "--timeout must be a positive integer");
+  if (runtimeOptions.offline) return usageError("check", "check sends requests and cannot run --offline");
+
+  const { data: settings } = readZedSettings();
+  let configured = listConfiguredProviders(settings);
+  if (providerName) {
+    const ref = resolveCliProvider(settings, providerName);
+    if (!ref) return EXIT_FAILURE;
+    configured = configured.filter((c) => providerLabel(c.ref) === providerLabel(ref));
+  }
+
+  const targets: { ref: ProviderRef; provider: any; modelIndexes: number[] }[] = [];
+  for (const { ref, provider } of configured) {
+    const models: FamilyModel[] = provider.available_models || [];
+    if (!PROVIDER_FAMILIES[ref.family].chatEndpoint) {
+      console.log(`⚠️  Skipping "${providerLabel(ref)}": health checks are not supported yet`);
+      continue;
+    }
+
+    const unknown = modelNames.filter((name) => !models.some((m) => m.name === name));
+    if (unknown.length > 0) {
+      console.error(`⚠️  Models not configured in "${providerLabel(ref)}": ${unknown.join(", ")}`);
+      return EXIT_FAILURE;
+    }
+    const modelIndexes = models
+      .map((m, index) => ({ m, index }))
+      .filter(({ m }) => modelNames.length === 0 || modelNames.includes(m.name))
+      .map(({ index }) => index);
+    if (modelIndexes.length > 0) targets.push({ ref, provider, modelIndexes });
+  }
+
+  if (targets.length === 0) {
+    console.log("📭 No models to check");
+    return EXIT_OK;
+  }
+
+  const results = await runModelChecks(
+    targets,
+    requestedProbes as (keyof ModelCapabilities)[],
+    timeoutSeconds * 1000,
+  );
+  const failed = results.filter((r) => !r.chat.ok).length;
+  console.log(`📊 ${results.length - failed}/${results.length} model(s) answered`);
+
+  const corrections = findCapabilityCorrections(results);
+  if (corrections.length > 0) {
+    console.log("");
+    printCapabilityCorrections(corrections);
+    if (!values.fix) {
+      console.log('💡 Run again with --fix to update them in settings.json');
+      return EXIT_FAILURE;
+    }
+
+    const { text: settingsText } = readZedSettings();
+    const { text: updatedText, applied } = applyCapabilityCorrections(settingsText, corrections);
+    const written = await confirmAndWriteSettings(settingsText, updatedText);
+    if (written) console.log(`✅ Corrected ${applied} capability flag(s)`);
+  }
+
+  return failed > 0 ? EXIT_FAILURE : EXIT_OK;
+}
+
+// Accepts a configured provider (mapped to its key variable) or a variable name.
+function resolveKeyName(key: string): string | null {
+  const ref = resolveProviderRef(readZedSettings().data, key);
+  if (ref) return providerEnvVarName(ref);
+  return /^[A-Z_][A-Z0-9_]*$/.test(key) ? key : null;
+}
+
+async function readKeyValue(envVarName: string): Promise<string | null> {
+  // A piped value keeps the key out of shell history and argv.
+  if (!process.stdin.isTTY) {
+    return readFileSync(0, "utf-8").trim() || null;
+  }
+
+  const value = await password({
+    message: `Value for ${envVarName}:`,
+    validate: (value) => {
+      if (!value) return "API key is required";
+      if (/\s/.test(value)) return "API key should not contain spaces";
+    },
+  });
+  return typeof value === "symbol" ? null : value;
+}
+
+async function cliKeys(args: string[]): Promise<number> {
+  const [action, key, ...rest] = args;
+  const backend = secretBackend();
+
+  try {
+    if (action === "list") {
+      if (key) return usageError("keys", "keys list takes no arguments");
+      const names = backend.list().sort();
+      if (names.length === 0) {
+        console.log(`📭 No keys stored in the ${backend.label}`);
+        return EXIT_OK;
+      }
+
+      const providerByVar = new Map<string, string>();
+      for (const { ref } of listConfiguredProviders(readZedSettings().data)) {
+        providerByVar.set(providerEnvVarName(ref), providerLabel(ref));
+      }
+      console.log(`🔑 Keys in the ${backend.label}:\n`);
+      for (const name of names) {
+        const provider = providerByVar.get(name);
+        console.log(`  ${name}${provider ? `  (${provider})` : ""}`);
+      }
+      return EXIT_OK;
+    }
+
+    if (action === "backend") {
+      if (rest.length > 0) return usageError("keys", "Expected at most one backend name");
+      if (!key) {
+        const override = process.env.ZED_API_SECRET_BACKEND ? " (from ZED_API_SECRET_BACKEND)" : "";
+        console.log(`${backend.id}: ${backend.label}${override}`);
+        if (backend.id === "keyfile" && keyfileUsesMasterKey()) {
+          console.log(`⚠️  ${KEYFILE_MASTER_KEY_WARNING}`);
+        }
+        return EXIT_OK;
+      }
+      if (!SECRET_BACKENDS[key as SecretBackendId]) {
+        return usageError(
+          "keys",
+          `Unknown backend "${key}" (${Object.keys(SECRET_BACKENDS).join(", ")})`,
+        );
+      }
+      writeZedApiConfig({ ...readZedApiConfig(), secret_backend: key as SecretBackendId });
+      console.log(`✅ Storing keys in the ${SECRET_BACKENDS[key as SecretBackendId].label}`);
+      if (key === "keyfile" && keyfileUsesMasterKey()) {
+        console.log(`⚠️  ${KEYFILE_MASTER_KEY_WARNING}`);
+      }
+      return EXIT_OK;
+    }
+
+    if (action !== "set" && action !== "get" && action !== "rm") {
+      return usageError("keys", 'Expected "keys set", "get", "rm", "list" or "backend"');
+    }
+    if (!key || rest.length > 0) {
+      return usageError("keys", "Expected exactly one provider or variable name");
+    }
+    const envVarName = resolveKeyName(key);
+    if (!envVarName) {
+      console.error(`⚠️  "${key}" is neither a configured provider nor a variable name`);
+      return EXIT_FAILURE;
+    }
+
+    if (action === "get") {
+      const value = backend.get(envVarName);
+      if (value === undefined) {
+        console.error(`⚠️  ${envVarName} is not stored in the ${backend.label}`);
+        return EXIT_FAILURE;
+      }
+      // Bare value on stdout so it can be used as $(zed-api keys get NAME).
+      console.log(value);
+      return EXIT_OK;
+    }
+
+    if (action === "rm") {
+      if (!backend.remove(envVarName)) {
+        console.error(`⚠️  ${envVarName} is not stored in the ${backend.label}`);
+        return EXIT_FAILURE;
+      }
+      console.log(`✅ Removed ${envVarName} from the ${backend.label}`);
+      return EXIT_OK;
+    }
+
+    const value = await readKeyValue(envVarName);
+    if (!value) {
+      console.error("⚠️  No key given");
+      return EXIT_FAILURE;
+    }
+    backend.set(envVarName, value);
+    console.log(`✅ Stored ${envVarName} in the ${backend.label}`);
+    return EXIT_OK;
+  } catch (error) {
+    console.error(`⚠️  ${(error as Error).message}`);
+    return EXIT_FAILURE;
+  }
+}
+
+async function cliShell(args: string[], values: CliValues): Promise<number> {
+  const [action = "status", key, ...rest] = args;
+
+  // --shell / --target are remembered for later runs.
+  if (values.shell !== undefined || values.target !== undefined) {
+    const shell = values.shell as ShellKind | undefined;
+    const target = values.target as ShellIntegration["target"] | undefined;
+    if (shell !== undefined && !SHELL_KINDS.includes(shell)) {
+      return usageError("shell", `Unknown --shell "${shell}" (${SHELL_KINDS.join(", ")})`);
+    }
+    if (target !== undefined && target !== "rc" && target !== "env-file") {
+      return usageError("shell", `Unknown --target "${target}" (rc, env-file)`);
+    }
+    writeZedApiConfig({
+      ...readZedApiConfig(),
+      ...(shell ? { shell } : {}),
+      ...(target ? { shell_target: target } : {}),
+    });
+  }
+
+  const integration = shellIntegration();
+
+  if (action === "status") {
+    if (key) return usageError("shell", "shell status takes no arguments");
+    console.log(`🐚 Shell: ${integration.shell}`);
+    console.log(`   Startup file: ${tildify(integration.rcPath)}`);
+    console.log(`   Exports: ${tildify(integration.exportsPath)}`);
+    const names = listShellExports(integration);
+    console.log(`   Managed variables: ${names.length > 0 ? names.join(", ") : "none"}`);
+    return EXIT_OK;
+  }
+
+  if (action !== "add" && action !== "rm") {
+    return usageError("shell", 'Expected "shell add", "shell rm" or "shell status"');
+  }
+  if (!key || rest.length > 0) {
+    return usageError("shell", "Expected exactly one provider or variable name");
+  }
+  const envVarName = resolveKeyName(key);
+  if (!envVarName) {
+    console.error(`⚠️  "${key}" is neither a configured provider nor a variable name`);
+    return EXIT_FAILURE;
+  }
+
+  if (action === "rm") {
+    if (!removeShellExport(envVarName)) {
+      console.error(`⚠️  ${envVarName} is not exported from ${tildify(integration.exportsPath)}`);
+      return EXIT_FAILURE;
+    }
+    if (runtimeOptions.dryRun) return EXIT_OK;
+    console.log(`✅ Removed ${envVarName} from ${tildify(integration.exportsPath)}`);
+    return EXIT_OK;
+  }
+
+  const value = resolveApiKey(envVarName);
+  if (!value) {
+    console.error(`⚠️  ${envVarName} is not set. Store it first with "zed-api keys set ${key}".`);
+    return EXIT_FAILURE;
+  }
+  setShellExport(envVarName, value);
+  if (runtimeOptions.dryRun) return EXIT_OK;
+  console.log(`✅ ${describeShellExport(envVarName, integration)}`);
+  return EXIT_OK;
+}
+
+// Providers can be given request settings before they are added to settings.json.
+function resolveAuthProviderRef(settings: any, name: string): ProviderRef {
+  return (
+    resolveProviderRef(settings, name) ??
+    (name.toLowerCase() in PROVIDER_FAMILIES && name.toLowerCase() !== "openai_compatible"
+      ? { family: name.toLowerCase() as ProviderFamilyId, name: name.toLowerCase() }
+      : openAICompatibleRef(name))
+  );
+}
+
+// Parses repeated "<name><separator><value>" options; an empty value unsets the entry.
+function parseCliPairs(
+  option: string,
+  values: unknown,
+  separator: string,
+): Record<string, string | undefined> | string {
+  const pairs: Record<string, string | undefined> = {};
+  for (const pair of (values as string[] | undefined) ?? []) {
+    const index = pair.indexOf(separator);
+    const name = index === -1 ? "" : pair.slice(0, index).trim();
+    if (!name) return `--${option} expects <name>${separator}<value>, got "${pair}"`;
+    pairs[name] = pair.slice(index + 1).trim() || undefined;
+  }
+  return pairs;
+}
+
+function mergePairs(
+  current: Record<string, string> | undefined,
+  changes: Record<string, string | undefined>,
+): Record<string, string> | undefined {
+  const merged: Record<string, string> = { ...current };
+  for (const [name, value] of Object.entries(changes)) {
+    if (value === undefined) delete merged[name];
+    else merged[name] = value;
+  }
+  return Object.keys(merged).length > 0 ? merged : undefined;
+}
+
+async function cliAuth(args: string[], values: CliValues): Promise<number> {
+  if (args.length !== 1) return usageError("auth", "Expected exactly one provider name");
+  const ref = resolveAuthProviderRef(readZedSettings().data, args[0]);
+  const label = providerLabel(ref);
+
+  const headers = parseCliPairs("header", values.header, ":");
+  if (typeof headers === "string") return usageError("auth", headers);
+  const query = parseCliPairs("query", values.query, "=");
+  if (typeof query === "string") return usageError("auth", query);
+  if (values["key-query"] && (values["key-header"] || values["key-scheme"] !== undefined)) {
+    return usageError("auth", "--key-query cannot be combined with --key-header or --key-scheme");
+  }
+  if (values.insecure && values["verify-tls"]) {
+    return usageError("auth", "--insecure and --verify-tls cannot be combined");
+  }
+
+  const current = readProviderRequestConfig(ref);
+  const changing =
+    values.reset ||
+    values["key-header"] !== undefined ||
+    values["key-scheme"] !== undefined ||
+    values["key-query"] !== undefined ||
+    values.insecure ||
+    values["verify-tls"] ||
+    Object.keys(headers).length > 0 ||
+    Object.keys(query).length > 0;
+
+  if (!changing) {
+    const lines = describeProviderRequestConfig(current);
+    if (lines.length === 0) {
+      console.log(`"${label}" uses the default authentication of its family`);
+      return EXIT_OK;
+    }
+    console.log(`🔐 Request settings for "${label}":\n`);
+    lines.forEach((line) => console.log(`  ${line}`));
+    return EXIT_OK;
+  }
+
+  const base: ProviderRequestConfig = values.reset ? {} : current;
+  const next: ProviderRequestConfig = { ...base };
+  if (values["key-query"] !== undefined) {
+    next.auth_query_param = (values["key-query"] as string) || undefined;
+    delete next.auth_header;
+    delete next.auth_scheme;
+  }
+  if (values["key-header"] !== undefined || values["key-scheme"] !== undefined) {
+    delete next.auth_query_param;
+    if (values["key-header"] !== undefined) {
+      next.auth_header = (values["key-header"] as string) || undefined;
+    }
+    if (values["key-scheme"] !== undefined) next.auth_scheme = values["key-scheme"] as string;
+  }
+  next.headers = mergePairs(base.headers, headers);
+  next.query = mergePairs(base.query, query);
+  if (values.insecure) next.insecure = true;
+  if (values["verify-tls"]) delete next.insecure;
+  for (const key of Object.keys(next) as (keyof ProviderRequestConfig)[]) {
+    if (next[key] === undefined) delete next[key];
+  }
+
+  const lines = describeProviderRequestConfig(next);
+  console.log(
+    lines.length > 0
+      ? `🔐 Request settings for "${label}":\n\n${lines.map((line) => `  ${line}`).join("\n")}\n`
+      : `🔐 "${label}" will use the default authentication of its family\n`,
+  );
+  if (runtimeOptions.dryRun) {
+    console.log(`🔍 Dry run: ${tildify(ZED_API_CONFIG_PATH)} was not modified`);
+    return EXIT_OK;
+  }
+  writeProviderRequestConfig(ref, next);
+  console.log(`✅ Saved to ${tildify(ZED_API_CONFIG_PATH)}`);
+  return EXIT_OK;
+}
+
+async function cliExport(args: string[], values: CliValues): Promise<number> {
+  const { data: settings } = readZedSettings();
+  let configured = listConfiguredProviders(settings);
+  if (args.length > 0) {
+    const refs: ProviderRef[] = [];
+    for (const name of args) {
+      const ref = resolveCliProvider(settings, name);
+      if (!ref) return EXIT_FAILURE;
+      refs.push(ref);
+    }
+    const labels = new Set(refs.map(providerLabel));
+    configured = configured.filter((c) => labels.has(providerLabel(c.ref)));
+  }
+  if (configured.length === 0) {
+    console.error("📭 No providers configured");
+    return EXIT_FAILURE;
+  }
+
+  const { bundle, omitted } = buildProviderBundle(configured, {
+    includeHeaders: Boolean(values["include-headers"]),
+    includeQuery: Boolean(values["include-query"]),
+  });
+  const json = JSON.stringify(bundle, null, 2) + "\n";
+  // The bundle goes to stdout so it can be redirected; notes go to stderr
+  omitted.forEach((item) => console.error(`⚠️  Left out ${item}`));
+  if (values.output) {
+    writeFileSync(values.output as string, json, "utf-8");
+    console.error(`✅ Exported ${bundle.providers.length} provider(s) to ${values.output}`);
+  } else {
+    process.stdout.write(json);
+  }
+  return EXIT_OK;
+}
+
+async function cliImport(args: string[], values: CliValues): Promise<number> {
+  if (args.length > 1) return usageError("import", "Expected at most one bundle file or URL");
+  const policy = values["on-conflict"] as ImportConflictPolicy | undefined;
+  if (policy !== undefined && !IMPORT_CONFLICT_POLICIES.includes(policy)) {
+    return usageError("import", `--on-conflict must be one of ${IMPORT_CONFLICT_POLICIES.join(", ")}`);
+  }
+
+  const { text: bundleText, label } = await readBundleSource(args[0]);
+  const bundle = parseProviderBundle(bundleText, label);
+  const { text: settingsText, data: settings } = readZedSettings();
+
+  const claimed = new Set<string>();
+  const imports: BundleImport[] = [];
+  const conflicts: string[] = [];
+  for (const entry of bundle.providers) {
+    const ref = bundleProviderRef(entry);
+    if (!getConfiguredProvider(settings, ref) && !claimed.has(entry.name)) {
+      claimed.add(entry.name);
+      imports.push({ entry, ref, action: "add" });
+    } else if (!policy) {
+      conflicts.push(providerLabel(ref));
+    } else if (policy === "rename" && PROVIDER_FAMILIES[entry.family].multiInstance) {
+      const newName = uniqueProviderName(settings, entry.name, claimed);
+      claimed.add(newName);
+      imports.push({ entry, ref: openAICompatibleRef(newName), action: "rename" });
+    } else {
+      // Built-in families have a single block, so renaming falls back to skipping
+      imports.push({ entry, ref, action: policy === "overwrite" ? "overwrite" : "skip" });
+    }
+  }
+  if (conflicts.length > 0) {
+    console.error(`❌ Already configured: ${conflicts.join(", ")}`);
+    console.error("   Pass --on-conflict skip, overwrite or rename");
+    return EXIT_FAILURE;
+  }
+
+  printBundleImports(imports, settings);
+  if (imports.every((item) => item.action === "skip")) {
+    console.log("⚠️  Nothing to import");
+    return EXIT_OK;
+  }
+  if (imports.some((item) => bundleApiUrlConcern(item, settings)) && !values["accept-urls"]) {
+    console.error("❌ The bundle points providers at URLs flagged above; nothing was imported");
+    console.error("   Zed sends the API keys there; check them and pass --accept-urls to import");
+    return EXIT_FAILURE;
+  }
+  if (hasBundleRequestSettings(imports) && !values["accept-request-settings"]) {
+    console.error("❌ The bundle sets request options (listed above); nothing was imported");
+    console.error("   Review them and pass --accept-request-settings to import them");
+    return EXIT_FAILURE;
+  }
+  const updatedText = applyBundleImports(settingsText, imports);
+  if (!(await confirmAndWriteSettings(settingsText, updatedText))) return EXIT_OK;
+  console.log(`✅ Imported ${imports.filter((item) => item.action !== "skip").length} provider(s)`);
+  finishBundleImports(imports);
+  return EXIT_OK;
+}
+
+async function cliDiscover(args: string[], values: CliValues): Promise<number> {
+  if (runtimeOptions.offline) {
+    return usageError("discover", "discover sends requests and cannot run --offline");
+  }
+  const targets = expandDiscoveryTargets(args);
+  if (typeof targets === "string") return usageError("discover", targets);
+
+  let ports = discoveryPorts();
+  if (values.ports !== undefined) {
+    ports = splitList([values.ports as string]).map(Number);
+    if (ports.length === 0 || ports.some((port) => !Number.isInteger(port) || port < 1 || port > 65535)) {
+      return usageError("discover", "--ports must be a comma-separated list of port numbers");
+    }
+  }
+
+  const servers = await discoverInferenceServers(targets, ports);
+  const { data: settings } = readZedSettings();
+  if (values.json) {
+    console.log(
+      JSON.stringify(
+        servers.map((server) => ({
+          url: server.apiUrl,
+          type: server.identifiedBy === "none" ? null : server.preset.id,
+          identified_by: server.identifiedBy,
+          family: server.preset.family,
+          name: server.preset.name,
+          models: server.models,
+          needs_key: server.needsKey,
+          configured_as: configuredProviderFor(settings, server)?.name ?? null,
+        })),
+        null,
+        2,
+      ),
+    );
+  } else if (servers.length === 0) {
+    console.log(`📭 No inference servers found on ports ${ports.join(", ")}`);
+  } else {
+    printDiscoveredServers(servers, settings);
+  }
+  return servers.length > 0 ? EXIT_OK : EXIT_FAILURE;
+}
+
+async function cliLint(args: string[], values: CliValues): Promise<number> {
+  if (args.length > 0) return usageError("lint", "lint takes no arguments");
+  const settingsText = readSettingsText();
+  let issues = lintSettingsText(settingsText);
+
+  if (values.fix) {
+    const fixable = issues.filter((issue) => issue.fix);
+    if (fixable.length > 0) {
+      const fixedText = applySettingsFixes(settingsText, fixable);
+      if (await confirmAndWriteSettings(settingsText, fixedText)) {
+        console.log(`✅ Applied ${fixable.length} fix(es)`);
+        issues = lintSettingsText(fixedText);
+      }
+    }
+  }
+
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+  // After --fix, locations refer to the fixed file
+  const text = readSettingsText();
+  if (values.json) {
+    console.log(
+      JSON.stringify(
+        issues.map((issue) => ({
+          severity: issue.severity,
+          ...settingsIssueLocation(text, issue),
+          path: formatJsonPath(issue.path),
+          message: issue.message,
+          fix: issue.fix?.description ?? null,
+        })),
+        null,
+        2,
+      ),
+    );
+  } else if (issues.length === 0) {
+    console.log(`✅ ${tildify(runtimeOptions.settingsPath)} has no problems`);
+  } else {
+    console.log(`🩺 ${tildify(runtimeOptions.settingsPath)}:\n`);
+    printSettingsIssues(text, issues);
+    if (!values.fix && issues.some((issue) => issue.fix)) {
+      console.log("\n💡 Run again with --fix to apply the fixes");
+    }
+  }
+  return errors > 0 ? EXIT_FAILURE : EXIT_OK;
+}
+
+const CLI_COMMANDS: Record<string, CliCommand> = {
+  add: {
+    usage: [
+      "add <name> --url <url> (--models <a,b,...> | --all) [--max-tokens <n>] [--probe]",
+      "add --family <family> [--url <url>] (--models <a,b,...> | --all) [--max-tokens <n>] [--probe]",
+      "add --preset <id> [name] [--url <url>] (--models <a,b,...> | --recommended | --all) [--max-tokens <n>] [--probe]",
+    ],
+    summary: "Add a provider with the given models",
+    options: {
+      family: { type: "string" },
+      preset: { type: "string" },
+      recommended: { type: "boolean" },
+      url: { type: "string" },
+      models: { type: "string" },
+      all: { type: "boolean" },
+      "max-tokens": { type: "string" },
+      probe: { type: "boolean" },
+    },
+    run: cliAdd,
+  },
+  presets: {
+    usage: ["presets [--json]"],
+    summary: "List the provider presets add can start from",
+    options: { json: { type: "boolean" } },
+    run: cliPresets,
+  },
+  list: {
+    usage: ["list [--json]"],
+    summary: "List configured providers",
+    options: { json: { type: "boolean" } },
+    run: cliList,
+  },
+  delete: {
+    usage: ["delete <name> --yes"],
+    summary: "Delete a provider and all its models",
+    options: { yes: { type: "boolean", short: "y" } },
+    run: cliDelete,
+  },
+  models: {
+    usage: [
+      "models add <provider> <model...> [--max-tokens <n>] [--probe]",
+      "models remove <provider> <model...>",
+      "models rename <provider> --template <template> [model...]",
+      "models order <provider> <model...>",
+    ],
+    summary: "Add, remove, rename or reorder models of an existing provider",
+    options: {
+      "max-tokens": { type: "string" },
+      probe: { type: "boolean" },
+      template: { type: "string" },
+    },
+    run: cliModels,
+  },
+  rename: {
+    usage: ["rename <old-name> <new-name>"],
+    summary: "Rename a provider",
+    run: cliRename,
+  },
+  "set-url": {
+    usage: ["set-url <provider> <url> [--missing keep|drop|map]"],
+    summary: "Point a provider at another endpoint, handling models it doesn't serve",
+    options: { missing: { type: "string" } },
+    run: cliSetUrl,
+  },
+  auth: {
+    usage: [
+      "auth <provider>",
+      "auth <provider> [--key-header <name>] [--key-scheme <scheme>] [--key-query <param>]",
+      "auth <provider> [--header \"<name>: <value>\"]... [--query <name>=<value>]... [--reset]",
+      "auth <provider> (--insecure | --verify-tls)",
+    ],
+    summary: "Show or set how requests to a provider are authenticated",
+    options: {
+      "key-header": { type: "string" },
+      "key-scheme": { type: "string" },
+      "key-query": { type: "string" },
+      header: { type: "string", multiple: true },
+      query: { type: "string", multiple: true },
+      reset: { type: "boolean" },
+      insecure: { type: "boolean" },
+      "verify-tls": { type: "boolean" },
+    },
+    run: cliAuth,
+  },
+  discover: {
+    usage: ["discover [host|host:port|cidr...] [--ports <p,q,...>] [--json]"],
+    summary: "Find Ollama, LM Studio, vLLM and other servers on localhost and the LAN",
+    options: {
+      ports: { type: "string" },
+      json: { type: "boolean" },
+    },
+    run: cliDiscover,
+  },
+  export: {
+    usage: ["export [provider...] [--output <file>] [--include-headers] [--include-query]"],
+    summary: "Write providers as a shareable bundle, without API keys",
+    options: {
+      output: { type: "string", short: "o" },
+      "include-headers": { type: "boolean" },
+      "include-query": { type: "boolean" },
+    },
+    run: cliExport,
+  },
+  import: {
+    usage: [
+      "import [file|url|-] [--on-conflict skip|overwrite|rename] [--accept-urls] [--accept-request-settings]",
+    ],
+    summary: "Add the providers of a bundle from a file, URL or stdin",
+    options: {
+      "on-conflict": { type: "string" },
+      "accept-urls": { type: "boolean" },
+      "accept-request-settings": { type: "boolean" },
+    },
+    run: cliImport,
+  },
+  keys: {
+    usage: [
+      "keys set <provider|VAR>   (reads the key from stdin or a hidden prompt)",
+      "keys get <provider|VAR>",
+      "keys rm <provider|VAR>",
+      "keys list",
+      "keys backend [keyfile|secret-service|pass]",
+    ],
+    summary: "Manage API keys in the secret store",
+    notes: [
+      "The keyfile backend protects keys with ZED_API_PASSPHRASE if it is set when the first key",
+      "is stored. Otherwise its master key is kept in keys.key next to keys.enc, which only keeps",
+      "the keys out of copies of keys.enc; use secret-service or pass to protect them.",
+    ],
+    run: cliKeys,
+  },
+  shell: {
+    usage: [
+      "shell add <provider|VAR>",
+      "shell rm <provider|VAR>",
+      "shell status [--shell <bash|zsh|fish|sh>] [--target <rc|env-file>]",
+    ],
+    summary: "Export API keys from your shell startup file for Zed",
+    options: {
+      shell: { type: "string" },
+      target: { type: "string" },
+    },
+    run: cliShell,
+  },
+  check: {
+    usage: ["check [provider] [model...] [--probes <tools,images,parallel_tool_calls,prompt_cache_key|all>] [--timeout <s>] [--fix]"],
+    summary: "Send test requests to configured models and report latency",
+    options: {
+      probes: { type: "string" },
+      timeout: { type: "string" },
+      fix: { type: "boolean" },
+    },
+    run: cliCheck,
+  },
+  lint: {
+    usage: ["lint [--fix] [--json]"],
+    summary: "Find syntax errors and invalid or suspicious provider settings",
+    options: {
+      fix: { type: "boolean" },
+      json: { type: "boolean" },
+    },
+    run: cliLint,
+  },
+  audit: {
+    usage: ["audit [provider] [--prune] [--update] [--add]"],
+    summary: "Find configured models that are retired or changed, and new ones",
+    options: {
+      prune: { type: "boolean" },
+      update: { type: "boolean" },
+      add: { type: "boolean" },
+    },
+    run: cliAudit,
+  },
+  cost: {
+    usage: ["cost [provider] [model...] [--input <tokens>] [--output <tokens>]"],
+    summary: "Estimate spend per configured model for a token workload",
+    options: {
+      input: { type: "string" },
+      output: { type: "string" },
+    },
+    run: cliCost,
+  },
+  plan: {
+    usage: ["plan [manifest]"],
+    summary: "Show how settings differ from a provider manifest",
+    run: cliPlan,
+  },
+  apply: {
+    usage: ["apply [manifest]"],
+    summary: "Reconcile settings with a provider manifest",
+    run: cliApply,
+  },
+  paths: {
+    usage: ["paths"],
+    summary: "List known settings.json locations and the one in use",
+    run: cliPaths,
+  },
+  history: {
+    usage: ["history"],
+    summary: "List settings.json snapshots taken before each write",
+    run: cliHistory,
+  },
+  undo: {
+    usage: ["undo"],
+    summary: "Revert the most recent settings.json write",
+    run: cliUndo,
+  },
+  restore: {
+    usage: ["restore <id>"],
+    summary: "Restore settings.json from a snapshot",
+    run: cliRestore,
+  },
+};
+
+function formatCommandUsage(commandName: string): string {
+  const command = CLI_COMMANDS[commandName];
+  return command.usage.map((u) => `Usage: zed-api ${u}`).join("\n");
+}
+
+function formatHelp(): string {
+  const lines = [
+    "Usage: zed-api [command] [options]",
+    "",
+    "Runs the interactive menu when no command is given.",
+    "",
+    "Commands:",
+  ];
+  for (const [name, command] of Object.entries(CLI_COMMANDS)) {
+    lines.push(`  ${name.padEnd(10)}${command.summary}`);
+    for (const usage of command.usage) lines.push(`              zed-api ${usage}`);
+  }
+  lines.push(
+    "",
+    "Options:",
+    "  -h, --help  Show help (also available per command)",
+    "  --dry-run   Print the settings.json diff instead of writing it",
+    "  --refresh   Revalidate cached model lists instead of trusting the TTL",
+    "  --offline   Never use the network; read model lists from the cache",
+    "  --settings <path>",
+    "              Edit this settings.json (or <dir>/settings.json) instead of Zed's",
+    "  --project   Edit the nearest project .zed/settings.json",
+    "  --ca-file <path>",
+    "              Also trust the certificates in this PEM file (or ZED_API_CA_FILE)",
+    "  --proxy <url>",
+    "              Send requests through this proxy instead of HTTPS_PROXY/HTTP_PROXY",
+    "  --request-timeout <seconds>",
+    "              Give up on a request after this long (default 30, or ZED_API_REQUEST_TIMEOUT)",
+    "  --retries <n>",
+    "              Retry failed model list requests n times with backoff (default 2, or ZED_API_RETRIES)",
+    "",
+    "Exit codes: 0 success, 1 failure (including failed checks), 2 invalid usage",
+  );
+  return lines.join("\n");
+}
+
+// Returns null when no subcommand is given and the interactive menu should run.
+async function runCli(argv: string[]): Promise<number | null> {
+  const { values: globalValues, positionals } = parseArgs({
+    args: argv,
+    options: GLOBAL_CLI_OPTIONS,
+    allowPositionals: true,
+    strict: false,
+  });
+  const commandName = positionals[0];
+  runtimeOptions.dryRun = globalValues["dry-run"] === true;
+  runtimeOptions.refresh = globalValues.refresh === true;
+  runtimeOptions.offline = globalValues.offline === true;
+
+  const globalUsageError = (message: string): number => {
+    console.error(`⚠️  ${message}\n`);
+    console.error(formatHelp());
+    return EXIT_USAGE;
+  };
+  if (runtimeOptions.refresh && runtimeOptions.offline) {
+    return globalUsageError("--refresh and --offline cannot be combined");
+  }
+  if (globalValues.settings !== undefined && globalValues.project) {
+    return globalUsageError("--settings and --project cannot be combined");
+  }
+  if (globalValues.settings !== undefined && typeof globalValues.settings !== "string") {
+    return globalUsageError("--settings requires a path");
+  }
+
+  // Network settings: flags first, then the environment
+  const caFile = globalValues["ca-file"] ?? process.env.ZED_API_CA_FILE;
+  if (caFile !== undefined) {
+    if (typeof caFile !== "string" || !existsSync(caFile)) {
+      return globalUsageError("--ca-file requires an existing PEM file");
     }
+    runtimeOptions.caFile = caFile;
+  }
+  if (globalValues.proxy !== undefined) {
+    if (typeof globalValues.proxy !== "string" || !/^https?:\/\//.test(globalValues.proxy)) {
+      return globalUsageError("--proxy requires an http:// or https:// URL");
+    }
+    runtimeOptions.proxy = globalValues.proxy;
+  }
+  const timeoutValue = globalValues["request-timeout"] ?? process.env.ZED_API_REQUEST_TIMEOUT;
+  const requestTimeout =
+    typeof timeoutValue === "boolean"
+      ? null
+      : parsePositiveInt(timeoutValue, runtimeOptions.requestTimeoutSeconds);
+  if (requestTimeout === null) {
+    return globalUsageError("--request-timeout must be a positive number of seconds");
+  }
+  runtimeOptions.requestTimeoutSeconds = requestTimeout;
+  const retries = globalValues.retries ?? process.env.ZED_API_RETRIES;
+  if (retries !== undefined) {
+    const count = Number(retries);
+    if (typeof retries !== "string" || !Number.isInteger(count) || count < 0) {
+      return globalUsageError("--retries must be a non-negative integer");
+    }
+    runtimeOptions.retries = count;
+  }
+  runtimeOptions.settingsPath =
+    typeof globalValues.settings === "string"
+      ? normalizeSettingsPath(globalValues.settings)
+      : globalValues.project
+        ? findProjectSettingsPath()
+        : defaultSettingsPath();
+
+  if (!commandName) {
+    if (argv.includes("--help") || argv.includes("-h")) {
+      console.log(formatHelp());
+      return EXIT_OK;
+    }
+    return null;
+  }
+
+  const command = CLI_COMMANDS[commandName];
+  if (!command) {
+    console.error(`⚠️  Unknown command "${commandName}"\n`);
+    console.error(formatHelp());
+    return EXIT_USAGE;
+  }
+
+  let parsed: { values: CliValues; positionals: string[] };
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: { ...GLOBAL_CLI_OPTIONS, ...command.options },
+      allowPositionals: true,
+    }) as { values: CliValues; positionals: string[] };
+  } catch (error) {
+    return usageError(commandName, (error as Error).message);
+  }
+
+  if (parsed.values.help) {
+    const notes = command.notes ? `\n\n${command.notes.join("\n")}` : "";
+    console.log(`${formatCommandUsage(commandName)}\n\n${command.summary}${notes}`);
+    return EXIT_OK;
   }
+
+  runtimeOptions.interactive = false;
+  return command.run(parsed.positionals.slice(1), parsed.values);
 }
 
 async function main() {
-  intro("🔧 Zed OpenAI-Compatible Provider Manager");
+  const exitCode = await runCli(process.argv.slice(2));
+  if (exitCode !== null) {
+    process.exit(exitCode);
+  }
+
+  intro("🔧 Zed Language Model Provider Manager");
+  const argv = process.argv.slice(2);
+  const explicitPath = argv.some((arg) => /^--(settings|project)(=|$)/.test(arg));
+  if (!explicitPath && !(await selectSettingsPath())) {
+    outro("👋 Goodbye!");
+    return;
+  }
+  console.log(`📄 Editing ${tildify(runtimeOptions.settingsPath)}`);
   await mainMenu();
 }
 
-main().catch(console.error);
+// Exported for the tests; the CLI only runs when this file is the entry point.
+export {
+  applyModelMetadataAdapters,
+  applySettingsFixes,
+  claimStaleSettingsLock,
+  collectRebaseEdits,
+  expandDiscoveryTargets,
+  findBestOpenRouterModelMatch,
+  inferCapabilitiesFromProviderModel,
+  lintSettingsText,
+  listSettingsSnapshots,
+  nativeServerBaseUrl,
+  parseManifest,
+  parseModelQuery,
+  parseProviderBundle,
+  planManifestProvider,
+  probeCapability,
+  rebaseSettingsEdit,
+  runtimeOptions,
+  saveSettingsSnapshot,
+  staleSettingsLock,
+};
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(EXIT_FAILURE);
+  });
+}